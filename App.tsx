@@ -1,30 +1,90 @@
 
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Segment, InputType, VoiceName } from './types';
+import { Segment, InputType, SessionSummary, ExportSettings, ExportFormat, TimelineEntry, ProjectSettings, TestSectionSettings, SpeechSettings, SpeechVoice, OcrSettings, VoicePersona, MusicBedSettings, OutputSettings, OutputSampleRate, LoudnessSettings, SegmentLoudness, SegmentTransition, SilenceSettings } from './types';
 import SegmentItem from './components/SegmentItem';
-import { Plus, Download, Play, Layers, AlertCircle, Loader2, RotateCcw, Key, Save, Edit2 } from 'lucide-react';
-import { decodeRawPCM, mergeAudioBuffers, bufferToWav, resampleAudioBuffer, convertSampleRate, trimAudioBuffer } from './utils/audioUtils';
+import SessionRestoreDialog from './components/SessionRestoreDialog';
+import ImportScriptDialog from './components/ImportScriptDialog';
+import ReadAlongPlayer from './components/ReadAlongPlayer';
+import TestSectionPanel from './components/TestSectionPanel';
+import SpeechProviderPanel from './components/SpeechProviderPanel';
+import LexiconPanel from './components/LexiconPanel';
+import StylePresetPanel from './components/StylePresetPanel';
+import PersonaLibraryPanel from './components/PersonaLibraryPanel';
+import MusicBedPanel from './components/MusicBedPanel';
+import LoudnessPanel from './components/LoudnessPanel';
+import SilencePanel from './components/SilencePanel';
+import BatchGeneratePanel, { BatchFailure } from './components/BatchGeneratePanel';
+import { Plus, Download, Play, Layers, AlertCircle, Loader2, RotateCcw, Key, Save, Edit2, FolderOpen, History, FileInput, Captions, BookOpen } from 'lucide-react';
+import { decodeRawPCM, mergeAudioBuffers, bufferToWav, resampleAudioBuffer, applyTempoAndPitch, convertSampleRate, trimAudioBuffer, mixMusicBed } from './utils/audioUtils';
+import { buildProjectArchive, openProjectArchive, PROJECT_FILE_EXTENSION } from './services/projectService';
+import { getSpeechProvider, resolveProjectVoice, canUseProvider, speakMarkedUpText, SpeechContext } from './services/speechProvider';
+import { stripSpeechMarkup } from './utils/speechMarkup';
+import { runGenerationQueue, getGenerationError, isSegmentPending, DEFAULT_CONCURRENCY } from './services/generationService';
+import { saveSession, listSessions, loadSession, deleteSession, isSessionEmpty } from './services/sessionService';
+import { encodeAudioBuffer, getExportExtension, getOpusUnsupportedReason, EXPORT_FORMATS, BITRATE_OPTIONS, DEFAULT_EXPORT_SETTINGS } from './services/exportService';
+import { formatSrt, formatVtt, formatCueSheet } from './utils/subtitleUtils';
+import { compressPauses } from './utils/silenceUtils';
+import { autoTrimSegment } from './services/silenceService';
+import { measureLoudness, measureIntegratedLoudness, normalizeLoudness, applyTruePeakLimiter, LoudnessStats } from './utils/loudnessUtils';
+import { getStorageEstimate } from './utils/indexedDb';
+import { getSpeechCacheStats, clearSpeechCache } from './services/ttsCacheService';
+import { createSegment, getSegmentSpeed } from './utils/segmentUtils';
+import { buildTestPlan, buildTestScriptHtml } from './utils/testBuilder';
+import { DEFAULT_PROJECT_SETTINGS, BUILT_IN_PERSONAS, OUTPUT_SAMPLE_RATES } from './constants';
+import { loadCustomPersonas, saveCustomPersonas } from './services/personaService';
+
+// Delay before a burst of edits is written to IndexedDB
+const AUTOSAVE_DELAY_MS = 2000;
 
 const App: React.FC = () => {
-  const [segments, setSegments] = useState<Segment[]>([
-    {
-      id: uuidv4(),
-      inputType: InputType.TEXT,
-      textRaw: '',
-      isExtracting: false,
-      isGeneratingAudio: false,
-      audioBase64: null,
-      voice: VoiceName.Puck,
-      speed: 1.0,
-      delay: 1.0
-    }
-  ]);
+  const [segments, setSegments] = useState<Segment[]>(() => [createSegment()]);
+  const [settings, setSettings] = useState<ProjectSettings>(DEFAULT_PROJECT_SETTINGS);
+  // User-defined personas live in this browser, not in the project
+  const [customPersonas, setCustomPersonas] = useState<VoicePersona[]>(loadCustomPersonas);
+  const personas = useMemo(() => [...BUILT_IN_PERSONAS, ...customPersonas], [customPersonas]);
+
+  // Voices offered by the local TTS server
+  const [localVoices, setLocalVoices] = useState<SpeechVoice[]>([]);
+  const [localVoicesError, setLocalVoicesError] = useState<string | null>(null);
+  const [isLoadingVoices, setIsLoadingVoices] = useState<boolean>(false);
 
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [globalError, setGlobalError] = useState<string | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const mergedBufferRef = useRef<AudioBuffer | null>(null);
+  const speechBufferRef = useRef<AudioBuffer | null>(null); // Merged speech without music, for read-along timing
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [segmentLoudness, setSegmentLoudness] = useState<Record<string, SegmentLoudness>>({});
+  const [masterLoudness, setMasterLoudness] = useState<LoudnessStats | null>(null);
+  const previewAudioRef = useRef<HTMLAudioElement>(null);
+  const [showReadAlong, setShowReadAlong] = useState<boolean>(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [opusUnsupported, setOpusUnsupported] = useState<string | null>(null); // Reason the Opus option is disabled
+  const [isProjectBusy, setIsProjectBusy] = useState<boolean>(false);
+  const [isTightening, setIsTightening] = useState<boolean>(false);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  // Autosave / Session Recovery State
+  const [sessionId, setSessionId] = useState<string>(() => uuidv4());
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const [showSessionDialog, setShowSessionDialog] = useState<boolean>(false);
+  const [restoringSessionId, setRestoringSessionId] = useState<string | null>(null);
+  const [lastAutosave, setLastAutosave] = useState<number | null>(null);
+  const [speechCacheStats, setSpeechCacheStats] = useState<{ count: number; size: number } | null>(null);
+
+  const [showImportDialog, setShowImportDialog] = useState<boolean>(false);
+
+  // Generate All queue
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
+  const [isBatchRunning, setIsBatchRunning] = useState<boolean>(false);
+  const [isBatchCancelling, setIsBatchCancelling] = useState<boolean>(false);
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number }>({ done: 0, total: 0 });
+  const [batchFailures, setBatchFailures] = useState<BatchFailure[]>([]);
+  const batchAbortRef = useRef<AbortController | null>(null);
 
   // API Key State
   const [apiKey, setApiKey] = useState<string>('');
@@ -39,6 +99,107 @@ const App: React.FC = () => {
     }
   }, []);
 
+  useEffect(() => {
+    saveCustomPersonas(customPersonas);
+  }, [customPersonas]);
+
+  const speechContext: SpeechContext = { apiKey, settings: settings.speech, lexicon: settings.lexicon };
+  const usesLocalEngine = settings.speech.provider === 'local' || segments.some(s => s.provider === 'local');
+
+  // Fetch the local server's voices once it is in use (debounced while the URL is typed)
+  useEffect(() => {
+    if (!usesLocalEngine) return;
+    const timer = setTimeout(refreshLocalVoices, 600);
+    return () => clearTimeout(timer);
+  }, [usesLocalEngine, settings.speech.localUrl]);
+
+  const refreshSessions = async () => {
+      const [list, estimate, cacheStats] = await Promise.all([listSessions(), getStorageEstimate(), getSpeechCacheStats().catch(() => null)]);
+      setSessions(list);
+      setStorageEstimate(estimate);
+      setSpeechCacheStats(cacheStats);
+      return list;
+  };
+
+  // Offer to restore a previous session on startup
+  useEffect(() => {
+    refreshSessions()
+        .then(list => {
+            if (list.length > 0) setShowSessionDialog(true);
+        })
+        .catch(err => console.error("Failed to read saved sessions", err));
+  }, []);
+
+  // Background autosave of the full segment list
+  useEffect(() => {
+    if (isSessionEmpty(segments)) return;
+
+    const timer = setTimeout(() => {
+        saveSession(sessionId, segments, settings)
+            .then(summary => setLastAutosave(summary.updatedAt))
+            .catch(err => console.error("Autosave failed", err));
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [segments, settings, sessionId]);
+
+  const replaceSegments = (next: Segment[], nextSettings?: ProjectSettings) => {
+      // Release blob URLs held by the current segments
+      segments.forEach(s => s.uploadedAudioURL && URL.revokeObjectURL(s.uploadedAudioURL));
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+
+      setSegments(next);
+      setPreviewUrl(null);
+      if (nextSettings) {
+          if (settings.musicBed.audioURL) URL.revokeObjectURL(settings.musicBed.audioURL);
+          setSettings(nextSettings);
+      }
+  };
+
+  const handleOpenSessions = async () => {
+      try {
+          await refreshSessions();
+          setShowSessionDialog(true);
+      } catch (error: any) {
+          setGlobalError(`Failed to read saved sessions: ${error.message}`);
+      }
+  };
+
+  const handleRestoreSession = async (id: string) => {
+      setRestoringSessionId(id);
+      try {
+          const restored = await loadSession(id);
+          if (restored.segments.length === 0) throw new Error("The session has no segments.");
+          replaceSegments(restored.segments, restored.settings);
+          setSessionId(id);
+          setShowSessionDialog(false);
+      } catch (error: any) {
+          console.error(error);
+          setGlobalError(`Failed to restore session: ${error.message}`);
+      } finally {
+          setRestoringSessionId(null);
+      }
+  };
+
+  const handleClearSpeechCache = async () => {
+      try {
+          await clearSpeechCache();
+          await refreshSessions();
+      } catch (error: any) {
+          console.error(error);
+          setGlobalError(`Failed to clear the speech cache: ${error.message}`);
+      }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+      try {
+          await deleteSession(id);
+          await refreshSessions();
+      } catch (error: any) {
+          console.error(error);
+      }
+  };
+
   const handleSaveApiKey = () => {
       if(apiKey.trim()) {
           localStorage.setItem('user_gemini_api_key', apiKey.trim());
@@ -52,31 +213,203 @@ const App: React.FC = () => {
 
   // Invalidate preview when segments change
   const handleSegmentChange = (id: string, updates: Partial<Segment>) => {
-    setSegments(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
+    setSegments(prev => prev.map(s => {
+        if (s.id !== id) return s;
+        // Trim points of generated speech belong to the audio they were set on
+        const isNewSpeech = s.inputType !== InputType.AUDIO && 'audioBase64' in updates && updates.audioBase64 !== s.audioBase64;
+        return isNewSpeech ? { ...s, trimStart: undefined, trimEnd: undefined, duration: undefined, ...updates } : { ...s, ...updates };
+    }));
     if (previewUrl) {
         URL.revokeObjectURL(previewUrl);
         setPreviewUrl(null);
     }
   };
 
-  const handleAddSegment = () => {
-    setSegments(prev => [
-      ...prev,
-      {
-        id: uuidv4(),
-        inputType: InputType.TEXT,
-        textRaw: '',
-        isExtracting: false,
-        isGeneratingAudio: false,
-        audioBase64: null,
-        voice: VoiceName.Puck,
-        speed: 1.0,
-        delay: 1.0
+  const runBatch = async (targets: Segment[]) => {
+      // Segments that can't be sent are reported straight away
+      const invalid: BatchFailure[] = [];
+      const jobs: Segment[] = [];
+      for (const seg of targets) {
+          const validationError = getGenerationError(seg, speechContext);
+          if (validationError) {
+              invalid.push({ segmentId: seg.id, index: segments.indexOf(seg), message: validationError });
+              handleSegmentChange(seg.id, { error: validationError });
+          } else {
+              jobs.push(seg);
+          }
+      }
+
+      const controller = new AbortController();
+      batchAbortRef.current = controller;
+      setIsBatchRunning(true);
+      setBatchFailures([]);
+      setBatchProgress({ done: 0, total: jobs.length });
+      setGlobalError(null);
+      jobs.forEach(seg => handleSegmentChange(seg.id, { queueStatus: 'queued', error: undefined }));
+
+      const markDone = () => setBatchProgress(prev => ({ ...prev, done: prev.done + 1 }));
+
+      try {
+          const result = await runGenerationQueue(jobs, speechContext, concurrency, controller.signal, {
+              onStart: id => handleSegmentChange(id, { queueStatus: undefined, isGeneratingAudio: true, audioBase64: null, audioFromCache: false }),
+              onRetry: id => handleSegmentChange(id, { queueStatus: 'retrying' }),
+              onSuccess: (id, speech) => {
+                  handleSegmentChange(id, { queueStatus: undefined, isGeneratingAudio: false, audioBase64: speech.audioBase64, audioFromCache: speech.fromCache });
+                  markDone();
+              },
+              onError: (id, message) => {
+                  handleSegmentChange(id, { queueStatus: undefined, isGeneratingAudio: false, error: `TTS failed: ${message}` });
+                  markDone();
+              }
+          });
+
+          result.cancelled.forEach(id => handleSegmentChange(id, { queueStatus: undefined, isGeneratingAudio: false }));
+          const failed = result.failed.map(f => ({ ...f, index: segments.findIndex(s => s.id === f.segmentId) }));
+          setBatchFailures([...invalid, ...failed].sort((a, b) => a.index - b.index));
+      } finally {
+          batchAbortRef.current = null;
+          setIsBatchRunning(false);
+          setIsBatchCancelling(false);
+      }
+  };
+
+  const handleGenerateAll = () => runBatch(segments.filter(isSegmentPending));
+
+  const handleRetryFailed = () => {
+      const failedIds = new Set(batchFailures.map(f => f.segmentId));
+      runBatch(segments.filter(s => failedIds.has(s.id)));
+  };
+
+  const handleCancelBatch = () => {
+      setIsBatchCancelling(true);
+      batchAbortRef.current?.abort();
+  };
+
+  const handleTestSectionChange = (updates: Partial<TestSectionSettings>) => {
+    setSettings(prev => ({ ...prev, testSection: { ...prev.testSection, ...updates } }));
+    if (previewUrl) {
+        URL.revokeObjectURL(previewUrl);
+        setPreviewUrl(null);
+    }
+  };
+
+  const handleMusicBedChange = (updates: Partial<MusicBedSettings>) => {
+    setSettings(prev => ({ ...prev, musicBed: { ...prev.musicBed, ...updates } }));
+    if (previewUrl) {
+        URL.revokeObjectURL(previewUrl);
+        setPreviewUrl(null);
+    }
+  };
+
+  const handleLoudnessChange = (updates: Partial<LoudnessSettings>) => {
+    setSettings(prev => ({ ...prev, loudness: { ...prev.loudness, ...updates } }));
+    if (previewUrl) {
+        URL.revokeObjectURL(previewUrl);
+        setPreviewUrl(null);
+    }
+  };
+
+  // Only pause compression changes the merged preview; trimming happens through Tighten All
+  const handleSilenceChange = (updates: Partial<SilenceSettings>) => {
+    const affectsPreview = updates.compressPauses !== undefined || settings.silence.compressPauses;
+    setSettings(prev => ({ ...prev, silence: { ...prev.silence, ...updates } }));
+    if (affectsPreview && previewUrl) {
+        URL.revokeObjectURL(previewUrl);
+        setPreviewUrl(null);
+    }
+  };
+
+  // Sets trim points on every segment with audio, so delays mean the same gap everywhere
+  const handleTightenAll = async () => {
+      setIsTightening(true);
+      setGlobalError(null);
+      try {
+          for (const seg of segments) {
+              const trim = await autoTrimSegment(seg, settings.silence);
+              if (trim) handleSegmentChange(seg.id, trim);
+          }
+      } catch (error: any) {
+          console.error(error);
+          setGlobalError(`Failed to trim silence: ${error.message}`);
+      } finally {
+          setIsTightening(false);
+      }
+  };
+
+  // The sample rate is baked into the merged preview; bit depth only matters on download
+  const handleOutputSettingsChange = (updates: Partial<OutputSettings>) => {
+    setSettings(prev => ({ ...prev, output: { ...prev.output, ...updates } }));
+    if (updates.sampleRate !== undefined && previewUrl) {
+        URL.revokeObjectURL(previewUrl);
+        setPreviewUrl(null);
+    }
+  };
+
+  const handlePrintTestScript = () => {
+      const printWindow = window.open('', '_blank');
+      if (!printWindow) {
+          setGlobalError("Please allow pop-ups to print the script.");
+          return;
       }
-    ]);
+      printWindow.document.write(buildTestScriptHtml(segments, settings.testSection));
+      printWindow.document.close();
+      printWindow.focus();
+      printWindow.print();
+  };
+
+  const getAnnouncerBuffer = async (text: string, audioContext: AudioContext): Promise<AudioBuffer> => {
+      const provider = getSpeechProvider(settings.speech.provider);
+      if (!canUseProvider(provider, apiKey)) throw new Error("An API Key is needed to generate announcer lines.");
+      const voice = resolveProjectVoice(settings.speech, settings.testSection.announcerVoice);
+      const speech = await speakMarkedUpText(provider, text, voice, speechContext);
+      return convertSampleRate(await decodeRawPCM(speech.audioBase64, audioContext), audioContext.sampleRate);
+  };
+
+  const refreshLocalVoices = async () => {
+      setIsLoadingVoices(true);
+      try {
+          setLocalVoices(await getSpeechProvider('local').listVoices(speechContext));
+          setLocalVoicesError(null);
+      } catch (error: any) {
+          setLocalVoices([]);
+          setLocalVoicesError(error.message);
+      } finally {
+          setIsLoadingVoices(false);
+      }
+  };
+
+  const handleOcrSettingsChange = (updates: Partial<OcrSettings>) => {
+      setSettings(prev => ({ ...prev, ocr: { ...prev.ocr, ...updates } }));
+  };
+
+  const handleSpeechSettingsChange = (updates: Partial<SpeechSettings>) => {
+      setSettings(prev => ({ ...prev, speech: { ...prev.speech, ...updates } }));
+  };
+
+  const handleAddSegment = () => {
+    setSegments(prev => [...prev, createSegment()]);
     setPreviewUrl(null);
   };
 
+  const handleImportScript = (imported: Segment[], mode: 'append' | 'replace') => {
+      // A blank project is replaced rather than keeping its empty first segment
+      if (mode === 'replace' || isSessionEmpty(segments)) {
+          replaceSegments(imported);
+      } else {
+          setSegments(prev => [...prev, ...imported]);
+          setPreviewUrl(null);
+      }
+      setShowImportDialog(false);
+  };
+
+  const handleInsertSegmentsAfter = (id: string, inserted: Segment[]) => {
+      setSegments(prev => {
+          const index = prev.findIndex(s => s.id === id);
+          return index < 0 ? [...prev, ...inserted] : [...prev.slice(0, index + 1), ...inserted, ...prev.slice(index + 1)];
+      });
+      setPreviewUrl(null);
+  };
+
   const handleRemoveSegment = (id: string) => {
     if (segments.length === 1) return;
     setSegments(prev => prev.filter(s => s.id !== id));
@@ -95,13 +428,31 @@ const App: React.FC = () => {
         return;
     }
 
+    // The printed test script lists every segment, so the recording must too
+    const silentSegment = settings.testSection.enabled
+        ? segments.findIndex(s => !validSegments.includes(s))
+        : -1;
+    if (silentSegment >= 0) {
+        setGlobalError(`Segment #${silentSegment + 1} has no audio yet. In a test section every segment is played, so generate or upload it first.`);
+        return;
+    }
+
     setIsProcessing(true);
     setGlobalError(null);
 
     try {
-        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+        // Everything is mixed at the project's output rate
+        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: settings.output.sampleRate });
         
-        const mergeList: { buffer: AudioBuffer; delay: number }[] = [];
+        const mergeList: { buffer: AudioBuffer; delay: number; segmentId: string; text: string; pan?: number; transition?: SegmentTransition }[] = [];
+        const segmentBuffers = new Map<string, AudioBuffer>();
+
+        // Segments are measured either way so the readouts are always available
+        const { loudness } = settings;
+        const levels: Record<string, SegmentLoudness> = {};
+        const level = (buffer: AudioBuffer) => loudness.enabled
+            ? normalizeLoudness(buffer, loudness.targetLufs)
+            : { buffer, measured: measureIntegratedLoudness(buffer), gain: 0 };
 
         for (const seg of segments) {
             let buffer: AudioBuffer | null = null;
@@ -110,7 +461,7 @@ const App: React.FC = () => {
             if (seg.inputType === InputType.AUDIO && seg.uploadedAudioURL) {
                  const response = await fetch(seg.uploadedAudioURL);
                  const arrayBuffer = await response.arrayBuffer();
-                 // Decode might return varying sample rates (44.1k, 48k)
+                 // Decoding converts the file to the context's (output) rate
                  const decoded = await audioContext.decodeAudioData(arrayBuffer);
                  
                  // Apply Trimming if set
@@ -119,24 +470,86 @@ const App: React.FC = () => {
                      processed = trimAudioBuffer(decoded, seg.trimStart, seg.trimEnd);
                  }
 
-                 // Normalize to 24000Hz to match Gemini TTS output for clean merging
-                 buffer = await convertSampleRate(processed, 24000);
+                 buffer = await convertSampleRate(processed, audioContext.sampleRate);
             } 
             // Case B: Gemini Generated (Raw PCM)
             else if (seg.audioBase64) {
-                 const rawBuffer = await decodeRawPCM(seg.audioBase64, audioContext);
+                 const decodedPcm = await decodeRawPCM(seg.audioBase64, audioContext);
+                 // Trim points (e.g. from silence trimming) refer to the generated audio
+                 const rawBuffer = seg.trimStart !== undefined && seg.trimEnd !== undefined
+                     ? trimAudioBuffer(decodedPcm, seg.trimStart, seg.trimEnd)
+                     : decodedPcm;
                  // Resample if speed != 1.0 (for Kids/Elders voices)
-                 buffer = await resampleAudioBuffer(rawBuffer, seg.speed);
+                 const personaBuffer = await resampleAudioBuffer(rawBuffer, getSegmentSpeed(seg));
+                 // Independent tempo/pitch controls
+                 const shapedBuffer = await applyTempoAndPitch(personaBuffer, seg.tempo, seg.pitch);
+                 // Upsample the 24kHz speech to the output rate
+                 buffer = await convertSampleRate(shapedBuffer, audioContext.sampleRate);
             }
 
             if (buffer) {
-                mergeList.push({ buffer, delay: seg.delay });
+                if (settings.silence.compressPauses) {
+                    buffer = compressPauses(buffer, settings.silence);
+                }
+                const levelled = level(buffer);
+                levels[seg.id] = { measured: levelled.measured, gain: levelled.gain };
+                segmentBuffers.set(seg.id, levelled.buffer);
+            }
+        }
+
+        if (settings.testSection.enabled) {
+            // Test section: announcer lines, repeats and answer gaps around the segments (no transitions)
+            const plan = buildTestPlan(segments, settings.testSection);
+            for (const item of plan) {
+                const buffer = item.kind === 'announcer'
+                    ? level(await getAnnouncerBuffer(item.text, audioContext)).buffer
+                    : segmentBuffers.get(item.segmentId!)!;
+                const pan = segments.find(s => s.id === item.segmentId)?.pan;
+                mergeList.push({ buffer, delay: item.delay, segmentId: item.segmentId ?? '', text: item.text, pan });
+            }
+        } else {
+            for (const seg of segments) {
+                const buffer = segmentBuffers.get(seg.id);
+                if (buffer) {
+                    mergeList.push({ buffer, delay: seg.delay, segmentId: seg.id, text: stripSpeechMarkup(seg.textRaw), pan: seg.pan, transition: seg.transition });
+                }
             }
         }
 
         if (mergeList.length === 0) throw new Error("No audio data could be processed.");
 
-        const mergedBuffer = mergeAudioBuffers(mergeList, audioContext);
+        const { buffer: speechBuffer, timeline: mergedTimeline } = mergeAudioBuffers(mergeList, audioContext, exportSettings.channels);
+        let mergedBuffer = speechBuffer;
+
+        const { musicBed } = settings;
+        if (musicBed.enabled && musicBed.audioURL) {
+            const response = await fetch(musicBed.audioURL);
+            const decodedMusic = await audioContext.decodeAudioData(await response.arrayBuffer());
+            // Levelled like speech, so the volume slider is relative to the target
+            const music = loudness.enabled ? normalizeLoudness(decodedMusic, loudness.targetLufs).buffer : decodedMusic;
+            // Range runs from the start segment's first play to the end of the end segment's trailing delay
+            const startEntry = mergedTimeline.find(e => e.segmentId === musicBed.startSegmentId);
+            const endEntry = [...mergedTimeline].reverse().find(e => e.segmentId === musicBed.endSegmentId);
+            mergedBuffer = await mixMusicBed(speechBuffer, music, mergedTimeline, {
+                ...musicBed,
+                start: startEntry?.start ?? 0,
+                end: endEntry ? endEntry.end + Math.max(0, endEntry.delay) : speechBuffer.duration
+            });
+        }
+
+        // The limiter's scan doubles as the master true-peak reading
+        let masterTruePeak: number | undefined;
+        if (loudness.enabled) {
+            const limited = applyTruePeakLimiter(mergedBuffer, loudness.truePeakCeiling);
+            mergedBuffer = limited.buffer;
+            masterTruePeak = limited.truePeak;
+        }
+
+        speechBufferRef.current = speechBuffer;
+        mergedBufferRef.current = mergedBuffer;
+        setTimeline(mergedTimeline);
+        setSegmentLoudness(levels);
+        setMasterLoudness(measureLoudness(mergedBuffer, masterTruePeak));
         const blob = bufferToWav(mergedBuffer);
         const url = URL.createObjectURL(blob);
         
@@ -144,20 +557,126 @@ const App: React.FC = () => {
 
     } catch (error: any) {
         console.error(error);
-        setGlobalError("Failed to process audio. Ensure all files are valid.");
+        setGlobalError(`Failed to process audio. Ensure all files are valid.${error?.message ? ` (${error.message})` : ''}`);
     } finally {
         setIsProcessing(false);
     }
   };
 
-  const handleDownload = () => {
-      if (!previewUrl) return;
+  const handleSaveProject = async () => {
+      setIsProjectBusy(true);
+      setGlobalError(null);
+      try {
+          const blob = await buildProjectArchive(segments, settings);
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `english-reader-project-${Date.now()}${PROJECT_FILE_EXTENSION}`;
+          document.body.appendChild(link);
+          link.click();
+          document.body.removeChild(link);
+          setTimeout(() => URL.revokeObjectURL(url), 100);
+      } catch (error: any) {
+          console.error(error);
+          setGlobalError(`Failed to save project: ${error.message}`);
+      } finally {
+          setIsProjectBusy(false);
+      }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      setIsProjectBusy(true);
+      setGlobalError(null);
+      try {
+          const loaded = await openProjectArchive(file);
+          if (loaded.segments.length === 0) throw new Error("The project has no segments.");
+
+          replaceSegments(loaded.segments, loaded.settings);
+          // Opened projects autosave as a new session
+          setSessionId(uuidv4());
+      } catch (error: any) {
+          console.error(error);
+          setGlobalError(`Failed to open project: ${error.message}`);
+      } finally {
+          setIsProjectBusy(false);
+      }
+  };
+
+  const handleDownload = async () => {
+      if (!previewUrl || !mergedBufferRef.current) return;
+
+      setIsExporting(true);
+      setGlobalError(null);
+      try {
+          const blob = await encodeAudioBuffer(mergedBufferRef.current, exportSettings, settings.output.bitDepth);
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `english-reader-full-${Date.now()}.${getExportExtension(exportSettings.format)}`;
+          document.body.appendChild(link);
+          link.click();
+          document.body.removeChild(link);
+          setTimeout(() => URL.revokeObjectURL(url), 100);
+      } catch (error: any) {
+          console.error(error);
+          setGlobalError(`Export failed: ${error.message}`);
+      } finally {
+          setIsExporting(false);
+      }
+  };
+
+  const handleDownloadCaptions = (format: 'srt' | 'vtt' | 'json') => {
+      if (timeline.length === 0) return;
+
+      const content = format === 'srt' ? formatSrt(timeline)
+          : format === 'vtt' ? formatVtt(timeline)
+          : formatCueSheet(timeline);
+      const mimeType = format === 'srt' ? 'application/x-subrip'
+          : format === 'vtt' ? 'text/vtt'
+          : 'application/json';
+
+      const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
       const link = document.createElement('a');
-      link.href = previewUrl;
-      link.download = `english-reader-full-${Date.now()}.wav`;
+      link.href = url;
+      link.download = `english-reader-full-${Date.now()}.${format}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 100);
+  };
+
+  const handleExportFormatChange = (format: ExportFormat) => {
+      const bitrates = format === 'wav' ? [] : BITRATE_OPTIONS[format];
+      setExportSettings(prev => ({
+          ...prev,
+          format,
+          // Keep the bitrate if the new format offers it, else pick a sensible middle value
+          bitrate: bitrates.includes(prev.bitrate) ? prev.bitrate : (bitrates[Math.floor(bitrates.length / 2)] ?? prev.bitrate)
+      }));
+  };
+
+  // Channel layout is baked into the merged preview, so it must be rebuilt
+  // Opus needs WebCodecs support for the output rate; fall back to WAV rather than failing mid-export
+  useEffect(() => {
+    let cancelled = false;
+    getOpusUnsupportedReason(settings.output.sampleRate, exportSettings.channels).then(reason => {
+        if (cancelled) return;
+        setOpusUnsupported(reason);
+        if (reason) setExportSettings(prev => prev.format === 'opus' ? { ...prev, format: 'wav' } : prev);
+    });
+    return () => { cancelled = true; };
+  }, [settings.output.sampleRate, exportSettings.channels]);
+
+  const handleExportChannelsChange = (channels: ExportSettings['channels']) => {
+      setExportSettings(prev => ({ ...prev, channels }));
+      if (previewUrl) {
+          URL.revokeObjectURL(previewUrl);
+          setPreviewUrl(null);
+      }
   };
 
   return (
@@ -177,6 +696,38 @@ const App: React.FC = () => {
             </div>
             
             <div className="flex items-center gap-4">
+                 {/* Project File Actions */}
+                 <div className="flex items-center gap-2">
+                     <button 
+                        onClick={handleSaveProject}
+                        disabled={isProjectBusy}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-primary-700/50 hover:bg-primary-700 text-xs font-medium rounded-md border border-primary-500/30 transition-colors disabled:opacity-50"
+                     >
+                         {isProjectBusy ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save Project
+                     </button>
+                     <button 
+                        onClick={() => projectInputRef.current?.click()}
+                        disabled={isProjectBusy}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-primary-700/50 hover:bg-primary-700 text-xs font-medium rounded-md border border-primary-500/30 transition-colors disabled:opacity-50"
+                     >
+                         <FolderOpen size={14} /> Open Project
+                     </button>
+                     <input 
+                        ref={projectInputRef}
+                        type="file"
+                        accept={`${PROJECT_FILE_EXTENSION},.zip`}
+                        onChange={handleOpenProject}
+                        className="hidden"
+                     />
+                     <button 
+                        onClick={handleOpenSessions}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-primary-700/50 hover:bg-primary-700 text-xs font-medium rounded-md border border-primary-500/30 transition-colors"
+                        title={lastAutosave ? `Autosaved at ${new Date(lastAutosave).toLocaleTimeString()}` : 'Not autosaved yet'}
+                     >
+                         <History size={14} /> Sessions
+                     </button>
+                 </div>
+
                  {/* Show Edit button if key is saved */}
                  {isApiKeySaved && (
                      <button 
@@ -195,6 +746,29 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {showSessionDialog && (
+          <SessionRestoreDialog 
+              sessions={sessions}
+              storage={storageEstimate}
+              speechCache={speechCacheStats}
+              onClearSpeechCache={handleClearSpeechCache}
+              restoringId={restoringSessionId}
+              onRestore={handleRestoreSession}
+              onDelete={handleDeleteSession}
+              onClose={() => setShowSessionDialog(false)}
+          />
+      )}
+
+      {showImportDialog && (
+          <ImportScriptDialog 
+              apiKey={apiKey}
+              ocrSettings={settings.ocr}
+              personas={personas}
+              onApply={handleImportScript}
+              onClose={() => setShowImportDialog(false)}
+          />
+      )}
+
       {/* API Key Banner (If not saved) */}
       {!isApiKeySaved && (
           <div className="bg-white border-b border-primary-200 shadow-sm p-4 animate-in slide-in-from-top-4">
@@ -237,14 +811,101 @@ const App: React.FC = () => {
         <div className="bg-white rounded-xl shadow-sm border border-primary-100 p-6 mb-8">
             <h2 className="text-lg font-bold text-slate-800 mb-2">Instructions</h2>
             <ul className="list-disc list-inside text-slate-600 space-y-1 text-sm">
-                <li>Choose <strong>Direct Text</strong>, <strong>Image/PDF</strong>, or <strong>Upload Audio</strong> for each segment.</li>
-                <li>For Text: Pick a voice persona (Child, Adult, Elder) and generate.</li>
+                <li>Choose <strong>Direct Text</strong>, <strong>Image/PDF</strong>, <strong>Upload Audio</strong>, or <strong>Dialogue</strong> for each segment.</li>
+                <li>Use <strong>Review with source</strong> to check OCR text next to the page, re-extract it, or draw a box to read just one region.</li>
+                <li>For PDFs: choose pages in the page picker and create one segment per page or per passage.</li>
+                <li>For Image/PDF: pick <strong>Local (Tesseract)</strong> OCR to read worksheets on this device without uploading them.</li>
+                <li>For Dialogue: Start each line with a speaker label (e.g. <em>A: Hello!</em>) and pick a persona per speaker.</li>
+                <li>For Text: Pick a voice persona (Child, Teen, Adult, Elder) and generate.</li>
+                <li>Click <strong>Browse voices</strong> to hear all 30 Gemini voices read your text, filter by gender or character, and pick one.</li>
+                <li>Create your own characters under <strong>Voice Personas</strong> (voice, speed, pitch, style); export them as JSON to reuse on another computer.</li>
                 <li>For Audio: Upload a file and use the <strong>Edit Length</strong> tool to trim start/end times if needed.</li>
-                <li>Set the <strong>Delay</strong> to control silence after the segment.</li>
-                <li>Click <strong>Preview All</strong> to merge and listen, then Download.</li>
+                <li>Add tricky names and abbreviations under <strong>Pronunciation</strong>, and use <em>[pause 2s]</em>, <em>*word*</em> and <em>[spell USA]</em> in the text.</li>
+                <li>Give a segment a <strong>Delivery Style</strong> (e.g. cheerful, calm teacher, whispering); save your own under <strong>Delivery Styles</strong>.</li>
+                <li>Set the <strong>Delay</strong> to control silence after the segment; below zero, the next segment starts early and overlaps it.</li>
+                <li>Choose a <strong>Transition</strong> (crossfade, or fade out and in) and its curve to blend a segment into the next, e.g. under music or sound effects.</li>
+                <li>No API key? Choose the <strong>Local server (Piper)</strong> speech engine to generate audio offline; any segment can override the project engine.</li>
+                <li>Use <strong>Generate All</strong> to create audio for every text segment that doesn't have it yet; failed segments can be retried in one click.</li>
+                <li>Add <strong>Background Music</strong> for stories; it fades in and out and is lowered automatically while someone speaks.</li>
+                <li>Choose <strong>Stereo</strong> next to the export format to keep stereo uploads and place each segment left or right (e.g. one speaker per side).</li>
+                <li>Use <strong>Tighten All</strong> under <strong>Silence</strong> (or <strong>Trim Silence</strong> on a segment) to cut uneven silence at the start and end, so each delay is the real gap; long pauses inside segments can be shortened too.</li>
+                <li>Leave <strong>Loudness</strong> on to even out Gemini voices, recordings and music; each segment shows its measured loudness after a preview.</li>
+                <li>Pick the output <strong>sample rate</strong> (48 kHz for video, 44.1 kHz for CDs and most players) and, for WAV, 16- or 24-bit; it is saved with the project.</li>
+                <li>Click <strong>Preview All</strong> to merge and listen, then Download as WAV, MP3 or Ogg Opus (smaller files for sharing).</li>
+                <li>Open <strong>Read-Along</strong> after previewing to follow the script word by word; click a word to jump to it.</li>
+                <li>After previewing, download captions as <strong>SRT</strong>, <strong>VTT</strong> or a <strong>JSON</strong> cue sheet.</li>
+                <li>Use <strong>Import Script</strong> to split a whole lesson into segments by paragraph, sentence, question, or speaker.</li>
+                <li>Use <strong>Save Project</strong> to keep all text and audio in one file, and <strong>Open Project</strong> to continue later.</li>
+                <li>Generated speech is cached in this browser, so regenerating the same text and voice is instant and free. Clear the cache from <strong>Sessions</strong>.</li>
+                <li>Your work is autosaved in this browser. Use <strong>Sessions</strong> to recover a previous session.</li>
+                <li>Turn on <strong>Listening Test</strong> mode to add announcer prompts, repeats and answer gaps, and print the script with an answer key.</li>
             </ul>
         </div>
 
+        <SpeechProviderPanel
+            settings={settings.speech}
+            onChange={handleSpeechSettingsChange}
+            localVoices={localVoices}
+            localVoicesError={localVoicesError}
+            isLoadingVoices={isLoadingVoices}
+            onRefreshVoices={refreshLocalVoices}
+        />
+
+        <PersonaLibraryPanel
+            personas={customPersonas}
+            onChange={setCustomPersonas}
+        />
+
+        <LexiconPanel
+            lexicon={settings.lexicon}
+            onChange={lexicon => setSettings(prev => ({ ...prev, lexicon }))}
+        />
+
+        <StylePresetPanel
+            presets={settings.stylePresets}
+            onChange={stylePresets => setSettings(prev => ({ ...prev, stylePresets }))}
+        />
+
+        <TestSectionPanel
+            settings={settings.testSection}
+            onChange={handleTestSectionChange}
+            onPrint={handlePrintTestScript}
+        />
+
+        <MusicBedPanel
+            settings={settings.musicBed}
+            segments={segments}
+            onChange={handleMusicBedChange}
+        />
+
+        <SilencePanel
+            settings={settings.silence}
+            onChange={handleSilenceChange}
+            onTightenAll={handleTightenAll}
+            isTightening={isTightening}
+        />
+
+        <LoudnessPanel
+            settings={settings.loudness}
+            master={previewUrl ? masterLoudness : null}
+            onChange={handleLoudnessChange}
+        />
+
+        <BatchGeneratePanel
+            pendingCount={segments.filter(isSegmentPending).length}
+            concurrency={concurrency}
+            onConcurrencyChange={setConcurrency}
+            isRunning={isBatchRunning}
+            isCancelling={isBatchCancelling}
+            progress={batchProgress}
+            failures={batchFailures}
+            canGenerate={!!apiKey || usesLocalEngine}
+            onStart={handleGenerateAll}
+            onCancel={handleCancelBatch}
+            onRetryFailed={handleRetryFailed}
+            onDismissFailures={() => setBatchFailures([])}
+        />
+
         {/* Segments List */}
         <div className="space-y-6 mb-24">
             {segments.map((seg, index) => (
@@ -255,23 +916,57 @@ const App: React.FC = () => {
                     onChange={handleSegmentChange} 
                     onRemove={handleRemoveSegment}
                     apiKey={apiKey}
+                    exportSettings={exportSettings}
+                    outputSettings={settings.output}
+                    testMode={settings.testSection.enabled}
+                    speechContext={speechContext}
+                    localVoices={localVoices}
+                    ocrSettings={settings.ocr}
+                    onOcrSettingsChange={handleOcrSettingsChange}
+                    onInsertAfter={handleInsertSegmentsAfter}
+                    stylePresets={settings.stylePresets}
+                    personas={personas}
+                    loudness={segmentLoudness[seg.id]}
+                    silenceSettings={settings.silence}
                 />
             ))}
 
-             {/* Add Button */}
-            <button 
-                onClick={handleAddSegment}
-                className="w-full py-4 border-2 border-dashed border-primary-300 text-primary-600 rounded-xl font-bold hover:bg-primary-50 hover:border-primary-500 transition-all flex items-center justify-center gap-2 group"
-            >
-                <div className="bg-primary-100 p-2 rounded-full group-hover:bg-primary-200 transition-colors">
-                    <Plus size={24} />
-                </div>
-                Add Next Segment
-            </button>
+             {/* Add Buttons */}
+            <div className="flex flex-col md:flex-row gap-4">
+                <button 
+                    onClick={handleAddSegment}
+                    className="flex-grow py-4 border-2 border-dashed border-primary-300 text-primary-600 rounded-xl font-bold hover:bg-primary-50 hover:border-primary-500 transition-all flex items-center justify-center gap-2 group"
+                >
+                    <div className="bg-primary-100 p-2 rounded-full group-hover:bg-primary-200 transition-colors">
+                        <Plus size={24} />
+                    </div>
+                    Add Next Segment
+                </button>
+                <button 
+                    onClick={() => setShowImportDialog(true)}
+                    className="md:w-64 py-4 border-2 border-dashed border-slate-300 text-slate-600 rounded-xl font-bold hover:bg-slate-100 hover:border-slate-400 transition-all flex items-center justify-center gap-2 group"
+                >
+                    <div className="bg-slate-100 p-2 rounded-full group-hover:bg-slate-200 transition-colors">
+                        <FileInput size={24} />
+                    </div>
+                    Import Script
+                </button>
+            </div>
         </div>
 
       </main>
 
+      {/* Read-Along Player (uses the preview audio below) */}
+      {showReadAlong && previewUrl && speechBufferRef.current && (
+          <ReadAlongPlayer 
+              audioRef={previewAudioRef}
+              buffer={speechBufferRef.current}
+              timeline={timeline}
+              segments={segments}
+              onClose={() => setShowReadAlong(false)}
+          />
+      )}
+
       {/* Bottom Sticky Control Panel */}
       <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-slate-200 shadow-[0_-8px_30px_rgba(0,0,0,0.12)] p-4 z-40">
         <div className="container mx-auto max-w-4xl flex flex-col md:flex-row items-center justify-between gap-4">
@@ -279,7 +974,7 @@ const App: React.FC = () => {
             {/* Audio Player Preview */}
             <div className="flex-grow w-full md:w-auto flex items-center gap-4 bg-slate-50 rounded-lg p-2 border border-slate-200">
                 {previewUrl ? (
-                    <audio controls src={previewUrl} className="w-full h-10 outline-none" autoPlay />
+                    <audio ref={previewAudioRef} controls src={previewUrl} className="w-full h-10 outline-none" autoPlay />
                 ) : (
                     <div className="w-full text-center text-slate-400 text-sm italic py-2">
                         Preview will appear here...
@@ -287,6 +982,94 @@ const App: React.FC = () => {
                 )}
             </div>
 
+            {/* Read-Along Toggle */}
+            {previewUrl && timeline.length > 0 && (
+                <button 
+                    onClick={() => setShowReadAlong(!showReadAlong)}
+                    className={`shrink-0 flex items-center gap-1.5 px-3 py-2 border rounded-md text-xs font-bold transition-colors animate-in fade-in ${showReadAlong ? 'bg-primary-600 text-white border-primary-600' : 'border-slate-300 text-slate-600 hover:bg-slate-50 hover:text-primary-600'}`}
+                    title="Show the script with word highlighting"
+                >
+                    <BookOpen size={16} /> Read-Along
+                </button>
+            )}
+
+            {/* Caption Export */}
+            {previewUrl && timeline.length > 0 && (
+                <div className="flex items-center gap-1 shrink-0 animate-in fade-in" title="Download captions / cue sheet">
+                    <Captions size={18} className="text-slate-500 mr-1" />
+                    {(['srt', 'vtt', 'json'] as const).map(format => (
+                        <button 
+                            key={format}
+                            onClick={() => handleDownloadCaptions(format)}
+                            className="px-2 py-1.5 border border-slate-300 text-slate-600 rounded-md text-xs font-bold uppercase hover:bg-slate-50 hover:text-primary-600"
+                        >
+                            {format}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {/* Export Format */}
+            <div className="flex items-center gap-2 w-full md:w-auto shrink-0">
+                <select 
+                    value={exportSettings.format}
+                    onChange={(e) => handleExportFormatChange(e.target.value as ExportFormat)}
+                    className="flex-1 md:flex-none p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                    title="Export format"
+                >
+                    {EXPORT_FORMATS.map(f => {
+                        const unavailable = f.id === 'opus' ? opusUnsupported : null;
+                        return (
+                            <option key={f.id} value={f.id} disabled={!!unavailable} title={unavailable ?? undefined}>
+                                {unavailable ? `${f.label} (${unavailable})` : f.label}
+                            </option>
+                        );
+                    })}
+                </select>
+                <select 
+                    value={exportSettings.channels}
+                    onChange={(e) => handleExportChannelsChange(parseInt(e.target.value, 10) as ExportSettings['channels'])}
+                    className="flex-1 md:flex-none p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                    title="Channels"
+                >
+                    <option value={1}>Mono</option>
+                    <option value={2}>Stereo</option>
+                </select>
+                <select 
+                    value={settings.output.sampleRate}
+                    onChange={(e) => handleOutputSettingsChange({ sampleRate: parseInt(e.target.value, 10) as OutputSampleRate })}
+                    className="flex-1 md:flex-none p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                    title="Sample rate"
+                >
+                    {OUTPUT_SAMPLE_RATES.map(r => (
+                        <option key={r.rate} value={r.rate}>{r.label}</option>
+                    ))}
+                </select>
+                {exportSettings.format === 'wav' && (
+                    <select 
+                        value={settings.output.bitDepth}
+                        onChange={(e) => handleOutputSettingsChange({ bitDepth: parseInt(e.target.value, 10) as OutputSettings['bitDepth'] })}
+                        className="flex-1 md:flex-none p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                        title="Bit depth"
+                    >
+                        <option value={16}>16-bit</option>
+                        <option value={24}>24-bit</option>
+                    </select>
+                )}
+                {exportSettings.format !== 'wav' && (
+                    <select 
+                        value={exportSettings.bitrate}
+                        onChange={(e) => setExportSettings(prev => ({ ...prev, bitrate: parseInt(e.target.value, 10) }))}
+                        className="flex-1 md:flex-none p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                        title="Bitrate"
+                    >
+                        {BITRATE_OPTIONS[exportSettings.format].map(kbps => (
+                            <option key={kbps} value={kbps}>{kbps} kbps</option>
+                        ))}
+                    </select>
+                )}
+            </div>
+
             {/* Action Buttons */}
             <div className="flex items-center gap-3 w-full md:w-auto shrink-0">
                 <button 
@@ -301,10 +1084,11 @@ const App: React.FC = () => {
                 {previewUrl && (
                     <button 
                         onClick={handleDownload}
-                        className="flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-3 bg-slate-900 text-white rounded-lg font-bold hover:bg-slate-800 transition-colors shadow-md animate-in fade-in slide-in-from-right-4"
+                        disabled={isExporting}
+                        className="flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-3 bg-slate-900 text-white rounded-lg font-bold hover:bg-slate-800 transition-colors shadow-md animate-in fade-in slide-in-from-right-4 disabled:opacity-70"
                     >
-                        <Download size={20} />
-                        Download
+                        {isExporting ? <Loader2 size={20} className="animate-spin" /> : <Download size={20} />}
+                        {isExporting ? 'Encoding...' : 'Download'}
                     </button>
                 )}
             </div>
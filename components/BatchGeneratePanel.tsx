@@ -0,0 +1,107 @@
+import React from 'react';
+import { Wand2, Loader2, XCircle, AlertTriangle, RotateCcw, X } from 'lucide-react';
+import { CONCURRENCY_OPTIONS } from '../services/generationService';
+
+export interface BatchFailure {
+  segmentId: string;
+  index: number; // Position in the segment list, for display
+  message: string;
+}
+
+interface BatchGeneratePanelProps {
+  pendingCount: number;
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+  isRunning: boolean;
+  isCancelling: boolean;
+  progress: { done: number; total: number };
+  failures: BatchFailure[];
+  canGenerate: boolean; // False without an API key
+  onStart: () => void;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+  onDismissFailures: () => void;
+}
+
+const BatchGeneratePanel: React.FC<BatchGeneratePanelProps> = ({
+  pendingCount, concurrency, onConcurrencyChange, isRunning, isCancelling, progress,
+  failures, canGenerate, onStart, onCancel, onRetryFailed, onDismissFailures
+}) => {
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-primary-100 p-4 mb-6">
+        <div className="flex flex-wrap items-center gap-3">
+            {isRunning ? (
+                <button
+                    onClick={onCancel}
+                    disabled={isCancelling}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                >
+                    <XCircle size={16} /> {isCancelling ? 'Cancelling...' : 'Cancel'}
+                </button>
+            ) : (
+                <button
+                    onClick={onStart}
+                    disabled={!canGenerate || pendingCount === 0}
+                    title={!canGenerate ? "Enter API Key first" : pendingCount === 0 ? "All text segments already have audio" : ""}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm transition-all active:scale-95"
+                >
+                    <Wand2 size={16} /> Generate All ({pendingCount} pending)
+                </button>
+            )}
+
+            <label className="flex items-center gap-2 text-xs font-semibold text-slate-500">
+                Parallel requests
+                <select
+                    value={concurrency}
+                    onChange={(e) => onConcurrencyChange(parseInt(e.target.value, 10))}
+                    disabled={isRunning}
+                    className="p-1.5 border border-slate-300 rounded-md bg-white text-sm text-slate-700 focus:ring-2 focus:ring-primary-500 outline-none disabled:opacity-50"
+                >
+                    {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+            </label>
+
+            {isRunning && (
+                <div className="flex-grow flex items-center gap-3 min-w-[200px]">
+                    <Loader2 size={16} className="animate-spin text-primary-600 shrink-0" />
+                    <div className="flex-grow h-2 bg-slate-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-primary-500 transition-all" style={{ width: `${percent}%` }} />
+                    </div>
+                    <span className="text-xs font-medium text-slate-600 whitespace-nowrap">{progress.done} / {progress.total}</span>
+                </div>
+            )}
+        </div>
+
+        {!isRunning && failures.length > 0 && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-3 animate-in fade-in slide-in-from-top-2">
+                <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm font-bold text-red-700 flex items-center gap-2">
+                        <AlertTriangle size={16} /> {failures.length} segment{failures.length === 1 ? '' : 's'} failed
+                    </p>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={onRetryFailed}
+                            disabled={!canGenerate}
+                            className="flex items-center gap-1 px-3 py-1 text-xs font-medium text-red-700 border border-red-300 rounded-md hover:bg-white disabled:opacity-50 transition-colors"
+                        >
+                            <RotateCcw size={12} /> Retry Failed
+                        </button>
+                        <button onClick={onDismissFailures} className="p-1 text-red-400 hover:text-red-600" title="Dismiss">
+                            <X size={14} />
+                        </button>
+                    </div>
+                </div>
+                <ul className="text-xs text-red-700 space-y-1 max-h-40 overflow-y-auto">
+                    {failures.map(f => (
+                        <li key={f.segmentId}><strong>#{f.index + 1}:</strong> {f.message}</li>
+                    ))}
+                </ul>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default BatchGeneratePanel;
@@ -0,0 +1,253 @@
+import React, { useMemo, useState } from 'react';
+import { Segment, DialogueSpeaker, OcrSettings, VoicePersona } from '../types';
+import { recognizeDocument } from '../services/ocrProvider';
+import { FileInput, FileText, Loader2, X, Clock, ListPlus, Replace } from 'lucide-react';
+import { splitScript, SplitMode } from '../utils/scriptSplitter';
+import { assignSpeakerVoices } from '../utils/dialogueUtils';
+import { createSegment } from '../utils/segmentUtils';
+import { DEFAULT_PERSONA_ID } from '../constants';
+import { findPersona, matchSpeakerPersona, personaToSegment, personaToSpeaker } from '../utils/personaUtils';
+import PresetOptions from './PresetOptions';
+
+interface ImportScriptDialogProps {
+  apiKey: string;
+  ocrSettings: OcrSettings;
+  personas: VoicePersona[];
+  onApply: (segments: Segment[], mode: 'append' | 'replace') => void;
+  onClose: () => void;
+}
+
+const SPLIT_MODES: { id: SplitMode; label: string }[] = [
+    { id: 'paragraph', label: 'Paragraph' },
+    { id: 'sentence', label: 'Sentence' },
+    { id: 'question', label: 'Numbered Question' },
+    { id: 'speaker', label: 'Speaker Label' },
+];
+
+// Furthest pan given to the outer speakers
+const SPEAKER_PAN_WIDTH = 0.6;
+
+const ImportScriptDialog: React.FC<ImportScriptDialogProps> = ({ apiKey, ocrSettings, personas, onApply, onClose }) => {
+  const [text, setText] = useState('');
+  const [mode, setMode] = useState<SplitMode>('paragraph');
+  const [delay, setDelay] = useState(1.0);
+  const [defaultPresetId, setDefaultPresetId] = useState(DEFAULT_PERSONA_ID);
+  const [speakerOverrides, setSpeakerOverrides] = useState<Record<string, DialogueSpeaker>>({});
+  const [spreadSpeakers, setSpreadSpeakers] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const chunks = useMemo(() => splitScript(text, mode), [text, mode]);
+
+  const speakerVoices = useMemo<Record<string, DialogueSpeaker>>(() => {
+      const speakers = Array.from(new Set<string>(chunks.map(c => c.speaker).filter((s): s is string => !!s)));
+      return assignSpeakerVoices(speakers, speakerOverrides);
+  }, [chunks, speakerOverrides]);
+
+  const defaultPersona = findPersona(personas, defaultPresetId) ?? findPersona(personas, DEFAULT_PERSONA_ID)!;
+
+  const personaLabel = (voice: DialogueSpeaker) => matchSpeakerPersona(personas, voice)?.name ?? `${voice.voice} (custom)`;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onloadend = async () => {
+          const base64Data = (reader.result as string).split(',')[1];
+          setIsExtracting(true);
+          setError(null);
+          try {
+              const { text: extracted } = await recognizeDocument(base64Data, file.type, ocrSettings, apiKey);
+              setText(prev => prev.trim() ? `${prev}\n\n${extracted}` : extracted);
+          } catch (err: any) {
+              setError(`Extraction failed: ${err.message}`);
+          } finally {
+              setIsExtracting(false);
+          }
+      };
+      reader.readAsDataURL(file);
+  };
+
+  // Speakers spread evenly across the stereo field, first speaker on the left
+  const speakerPan = (speaker: string): number | undefined => {
+      const names = Object.keys(speakerVoices);
+      if (!spreadSpeakers || names.length < 2) return undefined;
+      return Math.round((-SPEAKER_PAN_WIDTH + (2 * SPEAKER_PAN_WIDTH * names.indexOf(speaker)) / (names.length - 1)) * 10) / 10 || undefined;
+  };
+
+  const buildSegments = (): Segment[] => {
+      return chunks.map(chunk => {
+          const voice = chunk.speaker
+              ? { ...speakerVoices[chunk.speaker], pan: speakerPan(chunk.speaker) }
+              : personaToSegment(defaultPersona);
+          return createSegment({ textRaw: chunk.text, ...voice, delay });
+      });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-[60] flex items-center justify-center p-4 animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-slate-100">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <FileInput size={20} className="text-primary-600" /> Import Script
+            </h2>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1" title="Close">
+                <X size={20} />
+            </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-5 overflow-y-auto flex-grow">
+            {/* Left: Source Text & Options */}
+            <div className="space-y-4">
+                <div>
+                    <div className="flex items-center justify-between mb-1">
+                        <label className="text-sm font-bold text-slate-700">Lesson Text</label>
+                        <label className={`text-xs text-primary-600 hover:underline cursor-pointer flex items-center gap-1 ${isExtracting ? 'pointer-events-none opacity-50' : ''}`}>
+                            {isExtracting ? <Loader2 size={12} className="animate-spin" /> : <FileText size={12} />}
+                            {isExtracting ? 'Reading document...' : 'Extract from Image/PDF'}
+                            <input
+                                type="file"
+                                accept="application/pdf,image/png,image/jpeg,image/webp"
+                                onChange={handleFileChange}
+                                className="hidden"
+                            />
+                        </label>
+                    </div>
+                    <textarea
+                        className="w-full h-56 p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none resize-none bg-white text-black text-sm leading-relaxed"
+                        placeholder="Paste the whole lesson here..."
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                    />
+                    {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+                </div>
+
+                <div>
+                    <label className="block text-sm font-bold text-slate-700 mb-2">Split By</label>
+                    <div className="grid grid-cols-2 gap-2">
+                        {SPLIT_MODES.map(m => (
+                            <button
+                                key={m.id}
+                                onClick={() => setMode(m.id)}
+                                className={`py-1.5 px-2 rounded-md text-xs font-medium border transition-colors ${mode === m.id ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+                            >
+                                {m.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {mode === 'speaker' ? (
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 mb-2">Speaker Personas</label>
+                        {Object.keys(speakerVoices).length === 0 && (
+                            <p className="text-xs text-slate-500 italic">No speaker labels found. Start lines with e.g. "Tom:".</p>
+                        )}
+                        <div className="space-y-2">
+                            {Object.entries(speakerVoices).map(([speaker, persona]: [string, DialogueSpeaker]) => (
+                                <div key={speaker} className="flex items-center gap-2">
+                                    <span className="w-24 shrink-0 text-xs font-bold text-slate-600 truncate" title={speaker}>{speaker}</span>
+                                    <select
+                                        value={matchSpeakerPersona(personas, persona)?.id ?? ''}
+                                        onChange={(e) => {
+                                            const picked = findPersona(personas, e.target.value);
+                                            if (picked) setSpeakerOverrides(prev => ({ ...prev, [speaker]: personaToSpeaker(picked) }));
+                                        }}
+                                        className="flex-grow p-1.5 border border-slate-300 rounded-md bg-white text-slate-800 text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                                    >
+                                        <PresetOptions personas={personas} showCustom={!matchSpeakerPersona(personas, persona)} />
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                        {Object.keys(speakerVoices).length > 1 && (
+                            <label className="flex items-center gap-2 text-xs text-slate-600 mt-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={spreadSpeakers}
+                                    onChange={(e) => setSpreadSpeakers(e.target.checked)}
+                                    className="accent-primary-600"
+                                />
+                                Place speakers left and right (stereo export)
+                            </label>
+                        )}
+                    </div>
+                ) : (
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 mb-2">Voice Persona</label>
+                        <select
+                            value={defaultPersona.id}
+                            onChange={(e) => setDefaultPresetId(e.target.value)}
+                            className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 focus:ring-2 focus:ring-primary-500 outline-none"
+                        >
+                            <PresetOptions personas={personas} />
+                        </select>
+                    </div>
+                )}
+
+                <div>
+                    <label className="block text-sm font-bold text-slate-700 mb-2 flex items-center justify-between">
+                        <span className="flex items-center gap-1"><Clock size={14}/> Delay after each segment</span>
+                        <span className="bg-slate-200 text-slate-700 px-2 py-0.5 rounded text-xs">{delay}s</span>
+                    </label>
+                    <input
+                        type="range"
+                        min="0"
+                        max="5"
+                        step="0.5"
+                        value={delay}
+                        onChange={(e) => setDelay(parseFloat(e.target.value))}
+                        className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-primary-600"
+                    />
+                </div>
+            </div>
+
+            {/* Right: Preview */}
+            <div className="flex flex-col min-h-0">
+                <label className="text-sm font-bold text-slate-700 mb-2">Preview ({chunks.length} segment{chunks.length === 1 ? '' : 's'})</label>
+                <div className="flex-grow overflow-y-auto space-y-2 bg-slate-50 border border-slate-200 rounded-lg p-3 min-h-[200px] max-h-[55vh]">
+                    {chunks.length === 0 && (
+                        <p className="text-xs text-slate-400 italic text-center py-8">The split will appear here...</p>
+                    )}
+                    {chunks.map((chunk, i) => (
+                        <div key={i} className="bg-white border border-slate-200 rounded-md p-2">
+                            <div className="flex items-center gap-2 mb-1">
+                                <span className="bg-primary-100 text-primary-800 text-[10px] font-bold px-1.5 py-0.5 rounded-full">#{i + 1}</span>
+                                {chunk.speaker && (
+                                    <span className="text-[10px] font-bold text-slate-600 bg-slate-100 px-1.5 py-0.5 rounded">{chunk.speaker}</span>
+                                )}
+                                <span className="text-[10px] text-slate-400 ml-auto">
+                                    {chunk.speaker ? personaLabel(speakerVoices[chunk.speaker]) : defaultPersona.name}
+                                </span>
+                            </div>
+                            <p className="text-xs text-slate-700 leading-relaxed">{chunk.text}</p>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+
+        <div className="p-5 border-t border-slate-100 flex flex-col md:flex-row gap-3 justify-end">
+            <button
+                onClick={() => onApply(buildSegments(), 'replace')}
+                disabled={chunks.length === 0}
+                className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+                <Replace size={16} /> Replace All Segments
+            </button>
+            <button
+                onClick={() => onApply(buildSegments(), 'append')}
+                disabled={chunks.length === 0}
+                className="px-4 py-2 bg-primary-600 text-white rounded-lg text-sm font-bold hover:bg-primary-700 disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+                <ListPlus size={16} /> Add {chunks.length} Segment{chunks.length === 1 ? '' : 's'}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportScriptDialog;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { LexiconEntry } from '../types';
+import { BookA, Plus, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface LexiconPanelProps {
+  lexicon: LexiconEntry[];
+  onChange: (lexicon: LexiconEntry[]) => void;
+}
+
+const inputClass = "w-full p-1.5 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none";
+
+const LexiconPanel: React.FC<LexiconPanelProps> = ({ lexicon, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const updateEntry = (id: string, updates: Partial<LexiconEntry>) => {
+      onChange(lexicon.map(e => e.id === id ? { ...e, ...updates } : e));
+  };
+
+  const addEntry = () => {
+      onChange([...lexicon, { id: uuidv4(), term: '', spoken: '' }]);
+      setIsOpen(true);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-primary-100 p-6 mb-8">
+        <div className="flex items-center justify-between">
+            <button onClick={() => setIsOpen(v => !v)} className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <BookA size={20} className="text-primary-600" /> Pronunciation
+                <span className="text-xs font-medium text-slate-500">({lexicon.length} word{lexicon.length === 1 ? '' : 's'})</span>
+                {isOpen ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+            </button>
+            <button
+                onClick={addEntry}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-primary-700 border border-primary-200 rounded-lg hover:bg-primary-50 transition-colors"
+            >
+                <Plus size={14} /> Add Word
+            </button>
+        </div>
+
+        {isOpen && (
+            <div className="mt-4 space-y-2 animate-in fade-in slide-in-from-top-2">
+                {lexicon.length === 0 ? (
+                    <p className="text-xs text-slate-500 italic">
+                        Add names and abbreviations the voice gets wrong, e.g. "St." → "Street". They are replaced in every segment before speech is generated.
+                    </p>
+                ) : (
+                    <div className="grid grid-cols-[1fr_1fr_1fr_auto_auto] gap-2 items-center">
+                        <span className="text-xs font-semibold text-slate-500">Written</span>
+                        <span className="text-xs font-semibold text-slate-500">Spoken as</span>
+                        <span className="text-xs font-semibold text-slate-500" title="For your reference only; the voice uses Spoken as">IPA (note)</span>
+                        <span className="text-xs font-semibold text-slate-500" title="Match upper/lower case exactly">Aa</span>
+                        <span />
+                        {lexicon.map(entry => (
+                            <React.Fragment key={entry.id}>
+                                <input
+                                    type="text"
+                                    value={entry.term}
+                                    onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+                                    placeholder="Hermione"
+                                    className={inputClass}
+                                />
+                                <input
+                                    type="text"
+                                    value={entry.spoken}
+                                    onChange={(e) => updateEntry(entry.id, { spoken: e.target.value })}
+                                    placeholder="her-MY-oh-nee"
+                                    className={inputClass}
+                                />
+                                <input
+                                    type="text"
+                                    value={entry.ipa ?? ''}
+                                    onChange={(e) => updateEntry(entry.id, { ipa: e.target.value || undefined })}
+                                    placeholder="/hɜːˈmaɪ.ə.ni/"
+                                    className={inputClass}
+                                />
+                                <input
+                                    type="checkbox"
+                                    checked={!!entry.caseSensitive}
+                                    onChange={(e) => updateEntry(entry.id, { caseSensitive: e.target.checked })}
+                                    title="Match upper/lower case exactly"
+                                    className="accent-primary-600"
+                                />
+                                <button
+                                    onClick={() => onChange(lexicon.filter(e => e.id !== entry.id))}
+                                    className="text-slate-400 hover:text-red-500 p-1"
+                                    title="Remove word"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </React.Fragment>
+                        ))}
+                    </div>
+                )}
+                <p className="text-xs text-slate-500 pt-2">
+                    Changes apply the next time a segment is generated. The IPA column is a note for you and is not sent to the voice.
+                </p>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default LexiconPanel;
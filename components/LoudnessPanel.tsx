@@ -0,0 +1,78 @@
+import React from 'react';
+import { LoudnessSettings } from '../types';
+import { LOUDNESS_TARGETS, TRUE_PEAK_CEILINGS } from '../constants';
+import { LoudnessStats, formatLoudness } from '../utils/loudnessUtils';
+import { Volume2 } from 'lucide-react';
+
+interface LoudnessPanelProps {
+  settings: LoudnessSettings;
+  master: LoudnessStats | null; // Measured on the last preview
+  onChange: (updates: Partial<LoudnessSettings>) => void;
+}
+
+const inputClass = "w-full p-2 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none";
+const labelClass = "block text-xs font-semibold text-slate-500 mb-1";
+
+const LoudnessPanel: React.FC<LoudnessPanelProps> = ({ settings, master, onChange }) => {
+  // Projects may carry a target that isn't one of the presets
+  const targets = LOUDNESS_TARGETS.some(t => t.lufs === settings.targetLufs)
+      ? LOUDNESS_TARGETS
+      : [...LOUDNESS_TARGETS, { lufs: settings.targetLufs, label: `${settings.targetLufs} LUFS` }];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-primary-100 p-6 mb-8">
+        <div className="flex items-center justify-between flex-wrap gap-2">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <Volume2 size={20} className="text-primary-600" /> Loudness
+            </h2>
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-600 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={settings.enabled}
+                    onChange={(e) => onChange({ enabled: e.target.checked })}
+                    className="accent-primary-600"
+                />
+                Even out volume
+            </label>
+        </div>
+
+        {settings.enabled && (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2">
+                <div>
+                    <label className={labelClass}>Target loudness</label>
+                    <select
+                        value={settings.targetLufs}
+                        onChange={(e) => onChange({ targetLufs: parseFloat(e.target.value) })}
+                        className={inputClass}
+                    >
+                        {targets.map(t => <option key={t.lufs} value={t.lufs}>{t.label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Peak ceiling</label>
+                    <select
+                        value={settings.truePeakCeiling}
+                        onChange={(e) => onChange({ truePeakCeiling: parseFloat(e.target.value) })}
+                        className={inputClass}
+                    >
+                        {TRUE_PEAK_CEILINGS.map(db => <option key={db} value={db}>{db} dBTP</option>)}
+                    </select>
+                </div>
+            </div>
+        )}
+
+        <p className="text-xs text-slate-500 mt-3">
+            {settings.enabled
+                ? 'Each segment and the background music are brought to the target, and a limiter keeps the final mix under the peak ceiling.'
+                : 'Segments are merged at their original volume.'}
+            {master && (
+                <span className="block mt-1 font-medium text-slate-700">
+                    Last preview: {formatLoudness(master.integrated)} integrated, {formatLoudness(master.truePeak, 'dBTP')} true peak
+                </span>
+            )}
+        </p>
+    </div>
+  );
+};
+
+export default LoudnessPanel;
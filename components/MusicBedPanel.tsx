@@ -0,0 +1,171 @@
+import React from 'react';
+import { MusicBedSettings, Segment } from '../types';
+import { stripSpeechMarkup } from '../utils/speechMarkup';
+import { Music4, Upload, Trash2 } from 'lucide-react';
+
+interface MusicBedPanelProps {
+  settings: MusicBedSettings;
+  segments: Segment[]; // For choosing the range the music plays under
+  onChange: (updates: Partial<MusicBedSettings>) => void;
+}
+
+const inputClass = "w-full p-2 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none";
+const labelClass = "block text-xs font-semibold text-slate-500 mb-1";
+
+const segmentLabel = (segment: Segment, index: number) => {
+    const text = stripSpeechMarkup(segment.textRaw).trim() || segment.fileName || 'Empty segment';
+    return `#${index + 1} ${text.length > 40 ? `${text.slice(0, 40)}…` : text}`;
+};
+
+const MusicBedPanel: React.FC<MusicBedPanelProps> = ({ settings, segments, onChange }) => {
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      if (settings.audioURL) URL.revokeObjectURL(settings.audioURL);
+      onChange({ audioURL: URL.createObjectURL(file), fileName: file.name, enabled: true });
+  };
+
+  const handleRemove = () => {
+      if (settings.audioURL) URL.revokeObjectURL(settings.audioURL);
+      onChange({ audioURL: undefined, fileName: undefined });
+  };
+
+  // Ranges pointing at removed segments fall back to the first/last segment
+  const startId = segments.some(s => s.id === settings.startSegmentId) ? settings.startSegmentId : '';
+  const endId = segments.some(s => s.id === settings.endSegmentId) ? settings.endSegmentId : '';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-primary-100 p-6 mb-8">
+        <div className="flex items-center justify-between flex-wrap gap-2">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <Music4 size={20} className="text-primary-600" /> Background Music
+            </h2>
+            {settings.audioURL ? (
+                <label className="flex items-center gap-2 text-sm font-medium text-slate-600 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.enabled}
+                        onChange={(e) => onChange({ enabled: e.target.checked })}
+                        className="accent-primary-600"
+                    />
+                    Mix under speech
+                </label>
+            ) : (
+                <label className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-primary-700 border border-primary-200 rounded-lg hover:bg-primary-50 transition-colors cursor-pointer">
+                    <Upload size={14} /> Add Music
+                    <input type="file" accept="audio/*" className="hidden" onChange={handleFileChange} />
+                </label>
+            )}
+        </div>
+
+        {settings.audioURL && settings.enabled && (
+            <div className="mt-4 space-y-4 animate-in fade-in slide-in-from-top-2">
+                <div className="flex items-center gap-2 text-sm text-slate-700 bg-slate-50 border border-slate-200 rounded-md p-2">
+                    <Music4 size={14} className="text-slate-400 shrink-0" />
+                    <span className="truncate flex-grow" title={settings.fileName}>{settings.fileName || 'Music'}</span>
+                    <label className="text-xs text-primary-600 hover:underline cursor-pointer shrink-0">
+                        Replace
+                        <input type="file" accept="audio/*" className="hidden" onChange={handleFileChange} />
+                    </label>
+                    <button
+                        onClick={handleRemove}
+                        className="text-slate-400 hover:text-red-500 p-1 shrink-0"
+                        title="Remove music"
+                    >
+                        <Trash2 size={14} />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className={labelClass}>Volume ({Math.round(settings.volume * 100)}%)</label>
+                        <input
+                            type="range"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={settings.volume}
+                            onChange={(e) => onChange({ volume: parseFloat(e.target.value) })}
+                            className="w-full accent-primary-600"
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Under speech ({Math.round(settings.duckLevel * 100)}% of volume)</label>
+                        <input
+                            type="range"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={settings.duckLevel}
+                            onChange={(e) => onChange({ duckLevel: parseFloat(e.target.value) })}
+                            className="w-full accent-primary-600"
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Fade in ({settings.fadeIn}s)</label>
+                        <input
+                            type="range"
+                            min="0"
+                            max="10"
+                            step="0.5"
+                            value={settings.fadeIn}
+                            onChange={(e) => onChange({ fadeIn: parseFloat(e.target.value) })}
+                            className="w-full accent-primary-600"
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Fade out ({settings.fadeOut}s)</label>
+                        <input
+                            type="range"
+                            min="0"
+                            max="10"
+                            step="0.5"
+                            value={settings.fadeOut}
+                            onChange={(e) => onChange({ fadeOut: parseFloat(e.target.value) })}
+                            className="w-full accent-primary-600"
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Start with</label>
+                        <select
+                            value={startId}
+                            onChange={(e) => onChange({ startSegmentId: e.target.value || undefined })}
+                            className={inputClass}
+                        >
+                            <option value="">First segment</option>
+                            {segments.map((s, i) => <option key={s.id} value={s.id}>{segmentLabel(s, i)}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClass}>End after</label>
+                        <select
+                            value={endId}
+                            onChange={(e) => onChange({ endSegmentId: e.target.value || undefined })}
+                            className={inputClass}
+                        >
+                            <option value="">Last segment</option>
+                            {segments.map((s, i) => <option key={s.id} value={s.id}>{segmentLabel(s, i)}</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.loop}
+                        onChange={(e) => onChange({ loop: e.target.checked })}
+                        className="accent-primary-600"
+                    />
+                    Loop the music if it is shorter than the range
+                </label>
+                <p className="text-xs text-slate-500">
+                    The music is lowered automatically while someone speaks. Changes apply the next time you click Preview All.
+                </p>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default MusicBedPanel;
@@ -0,0 +1,284 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { OcrSettings } from '../types';
+import { ScanText, X, Loader2, RefreshCw, Crop, GitCompare, ChevronLeft, ChevronRight } from 'lucide-react';
+import { recognizeDocument } from '../services/ocrProvider';
+import { openPdf, renderPageForOcr } from '../utils/pdfUtils';
+import { cropImageRegion, NormalizedRect } from '../utils/imageUtils';
+import { diffText } from '../utils/textDiff';
+
+interface OcrReviewPaneProps {
+  fileName: string;
+  fileData: string; // base64
+  mimeType: string;
+  text: string;
+  confidence?: number;
+  ocrSettings: OcrSettings;
+  apiKey: string;
+  onSave: (text: string, confidence?: number) => void;
+  onClose: () => void;
+}
+
+// Selections smaller than this (fraction of the image) are treated as clicks
+const MIN_SELECTION = 0.01;
+
+const OcrReviewPane: React.FC<OcrReviewPaneProps> = ({
+  fileName, fileData, mimeType, text, confidence, ocrSettings, apiKey, onSave, onClose
+}) => {
+  const isPdf = mimeType === 'application/pdf';
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [sourceUrl, setSourceUrl] = useState<string | null>(isPdf ? null : `data:${mimeType};base64,${fileData}`);
+
+  const [draft, setDraft] = useState(text);
+  const [draftConfidence, setDraftConfidence] = useState(confidence);
+  const [previousText, setPreviousText] = useState<string | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+
+  const [selection, setSelection] = useState<NormalizedRect | null>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const imageBoxRef = useRef<HTMLDivElement>(null);
+  const cursorRef = useRef<{ start: number; end: number } | null>(null); // Last caret in the text area
+
+  const [busy, setBusy] = useState<'page' | 'region' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+      if (!isPdf) return;
+      let doc: PDFDocumentProxy | null = null;
+      let disposed = false;
+      openPdf(fileData)
+          .then(loaded => {
+              doc = loaded;
+              if (!disposed) setPdf(loaded);
+          })
+          .catch(err => !disposed && setError(`Could not open PDF: ${err.message}`));
+      return () => {
+          disposed = true;
+          doc?.destroy();
+      };
+  }, [fileData, isPdf]);
+
+  // Render the current PDF page at OCR resolution; the same image is used for region crops
+  useEffect(() => {
+      if (!pdf) return;
+      let stale = false;
+      setSourceUrl(null);
+      setSelection(null);
+      renderPageForOcr(pdf, pageNumber)
+          .then(png => !stale && setSourceUrl(`data:image/png;base64,${png}`))
+          .catch(err => !stale && setError(`Could not render page ${pageNumber}: ${err.message}`));
+      return () => { stale = true; };
+  }, [pdf, pageNumber]);
+
+  const pointerPosition = (e: React.MouseEvent) => {
+      const rect = imageBoxRef.current!.getBoundingClientRect();
+      return {
+          x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+          y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height))
+      };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+      if (busy) return;
+      e.preventDefault();
+      dragStartRef.current = pointerPosition(e);
+      setSelection(null);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+      const start = dragStartRef.current;
+      if (!start) return;
+      const pos = pointerPosition(e);
+      setSelection({
+          x: Math.min(start.x, pos.x),
+          y: Math.min(start.y, pos.y),
+          width: Math.abs(pos.x - start.x),
+          height: Math.abs(pos.y - start.y)
+      });
+  };
+
+  const handleMouseUp = () => {
+      dragStartRef.current = null;
+      setSelection(prev => prev && prev.width > MIN_SELECTION && prev.height > MIN_SELECTION ? prev : null);
+  };
+
+  const recognize = async (base64Png: string) => {
+      return recognizeDocument(base64Png, 'image/png', ocrSettings, apiKey);
+  };
+
+  const handleReextract = async () => {
+      setBusy('page');
+      setError(null);
+      try {
+          const result = isPdf
+              ? await recognize(sourceUrl!.split(',')[1])
+              : await recognizeDocument(fileData, mimeType, ocrSettings, apiKey);
+          setPreviousText(draft);
+          setDraft(result.text);
+          setDraftConfidence(result.confidence);
+          setShowDiff(true);
+      } catch (err: any) {
+          setError(`Extraction failed: ${err.message}`);
+      } finally {
+          setBusy(null);
+      }
+  };
+
+  const handleExtractRegion = async () => {
+      if (!selection || !sourceUrl) return;
+      setBusy('region');
+      setError(null);
+      try {
+          const result = await recognize(await cropImageRegion(sourceUrl, selection));
+          // Insert at the last caret position (replacing any selected text), otherwise append
+          const start = cursorRef.current?.start ?? draft.length;
+          const end = cursorRef.current?.end ?? draft.length;
+          const before = draft.slice(0, start);
+          const separator = before && !before.endsWith('\n') && start === draft.length ? '\n' : '';
+          setPreviousText(draft);
+          setDraft(`${before}${separator}${result.text}${draft.slice(end)}`);
+          setShowDiff(true);
+          setSelection(null);
+          cursorRef.current = null;
+      } catch (err: any) {
+          setError(`Region extraction failed: ${err.message}`);
+      } finally {
+          setBusy(null);
+      }
+  };
+
+  const diff = showDiff && previousText !== null ? diffText(previousText, draft) : null;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-[60] flex items-center justify-center p-4 animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-6xl h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2 min-w-0">
+                <ScanText size={20} className="text-primary-600 shrink-0" />
+                <span className="truncate">Review: {fileName}</span>
+            </h2>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1" title="Close">
+                <X size={20} />
+            </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 flex-grow min-h-0">
+            {/* Source */}
+            <div className="flex flex-col min-h-0">
+                <div className="flex items-center justify-between mb-2 text-xs text-slate-500">
+                    <span>Drag on the page to select a region</span>
+                    {pdf && (
+                        <span className="flex items-center gap-1">
+                            <button onClick={() => setPageNumber(p => Math.max(1, p - 1))} disabled={pageNumber <= 1 || !!busy} className="p-1 hover:text-primary-600 disabled:opacity-30"><ChevronLeft size={16} /></button>
+                            Page {pageNumber} / {pdf.numPages}
+                            <button onClick={() => setPageNumber(p => Math.min(pdf.numPages, p + 1))} disabled={pageNumber >= pdf.numPages || !!busy} className="p-1 hover:text-primary-600 disabled:opacity-30"><ChevronRight size={16} /></button>
+                        </span>
+                    )}
+                </div>
+                <div className="flex-grow overflow-auto bg-slate-100 rounded-lg border border-slate-200 p-2">
+                    {sourceUrl ? (
+                        <div
+                            ref={imageBoxRef}
+                            className="relative cursor-crosshair select-none"
+                            onMouseDown={handleMouseDown}
+                            onMouseMove={handleMouseMove}
+                            onMouseUp={handleMouseUp}
+                            onMouseLeave={handleMouseUp}
+                        >
+                            <img src={sourceUrl} alt="Source page" className="w-full h-auto block" draggable={false} />
+                            {selection && (
+                                <div
+                                    className="absolute border-2 border-primary-500 bg-primary-500/10"
+                                    style={{
+                                        left: `${selection.x * 100}%`,
+                                        top: `${selection.y * 100}%`,
+                                        width: `${selection.width * 100}%`,
+                                        height: `${selection.height * 100}%`
+                                    }}
+                                />
+                            )}
+                        </div>
+                    ) : (
+                        <div className="h-full flex items-center justify-center text-slate-400"><Loader2 size={20} className="animate-spin" /></div>
+                    )}
+                </div>
+                <div className="flex gap-2 mt-2">
+                    <button
+                        onClick={handleExtractRegion}
+                        disabled={!selection || !!busy}
+                        className="flex-1 py-2 px-3 bg-primary-600 text-white rounded-lg text-sm font-medium hover:bg-primary-700 disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                        {busy === 'region' ? <Loader2 size={16} className="animate-spin" /> : <Crop size={16} />}
+                        Extract Selected Region
+                    </button>
+                    <button
+                        onClick={handleReextract}
+                        disabled={!sourceUrl || !!busy}
+                        className="flex-1 py-2 px-3 border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                        {busy === 'page' ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                        Re-extract {isPdf ? 'Page' : 'Image'}
+                    </button>
+                </div>
+            </div>
+
+            {/* Text */}
+            <div className="flex flex-col min-h-0">
+                <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs font-semibold text-slate-500 uppercase">
+                        Text{draftConfidence !== undefined ? ` · confidence ${draftConfidence}%` : ''}
+                    </span>
+                    <button
+                        onClick={() => setShowDiff(v => !v)}
+                        disabled={previousText === null}
+                        className={`text-xs flex items-center gap-1 px-2 py-1 rounded border disabled:opacity-40 ${showDiff ? 'bg-primary-50 border-primary-300 text-primary-700' : 'border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+                        title={previousText === null ? "Re-extract to compare with the previous text" : "Compare with the text before the last extraction"}
+                    >
+                        <GitCompare size={12} /> Changes
+                    </button>
+                </div>
+                {diff ? (
+                    <div className="flex-grow overflow-auto p-3 border border-slate-300 rounded-lg text-sm whitespace-pre-wrap bg-white leading-relaxed">
+                        {diff.map((part, i) => (
+                            <span
+                                key={i}
+                                className={part.type === 'added' ? 'bg-emerald-100 text-emerald-900' : part.type === 'removed' ? 'bg-red-100 text-red-800 line-through' : ''}
+                            >
+                                {part.text}
+                            </span>
+                        ))}
+                    </div>
+                ) : (
+                    <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onSelect={(e) => { cursorRef.current = { start: e.currentTarget.selectionStart, end: e.currentTarget.selectionEnd }; }}
+                        className="flex-grow w-full p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none resize-none bg-white text-black text-sm leading-relaxed"
+                    />
+                )}
+                {diff && <p className="text-xs text-slate-500 mt-1">Close "Changes" to edit the text.</p>}
+            </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-4 border-t border-slate-100">
+            <p className="text-xs text-red-500">{error}</p>
+            <div className="flex gap-2">
+                <button onClick={onClose} className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50">
+                    Cancel
+                </button>
+                <button
+                    onClick={() => onSave(draft, draftConfidence)}
+                    disabled={!!busy}
+                    className="px-4 py-2 bg-primary-600 text-white rounded-lg text-sm font-bold hover:bg-primary-700 disabled:opacity-50"
+                >
+                    Save Text
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OcrReviewPane;
@@ -0,0 +1,265 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { OcrSettings } from '../types';
+import { FileText, X, Loader2, CheckCircle2, AlertCircle, Layers } from 'lucide-react';
+import { openPdf, renderPageThumbnail, renderPageForOcr, extractEmbeddedText, parsePageRange } from '../utils/pdfUtils';
+import { recognizeDocument } from '../services/ocrProvider';
+
+export type PdfSplitMode = 'single' | 'page' | 'passage';
+
+export interface PdfPageResult {
+  pageNumber: number;
+  text: string;
+  confidence?: number;
+}
+
+type PageStatus = 'pending' | 'working' | 'done' | 'failed';
+
+interface PdfPagePickerProps {
+  fileName: string;
+  base64Data: string;
+  ocrSettings: OcrSettings;
+  apiKey: string;
+  onApply: (pages: PdfPageResult[], mode: PdfSplitMode) => void;
+  onClose: () => void;
+}
+
+const SPLIT_OPTIONS: { id: PdfSplitMode; label: string; hint: string }[] = [
+  { id: 'single', label: 'One segment', hint: 'All chosen pages in this segment' },
+  { id: 'page', label: 'Segment per page', hint: 'New segments are added below' },
+  { id: 'passage', label: 'Segment per passage', hint: 'Each paragraph becomes a segment' },
+];
+
+const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ fileName, base64Data, ocrSettings, apiKey, onApply, onClose }) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [rangeInput, setRangeInput] = useState('');
+  const [splitMode, setSplitMode] = useState<PdfSplitMode>('page');
+  const [useEmbeddedText, setUseEmbeddedText] = useState(true);
+
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [status, setStatus] = useState<Record<number, PageStatus>>({});
+  const [pageErrors, setPageErrors] = useState<Record<number, string>>({});
+  const [results, setResults] = useState<PdfPageResult[]>([]);
+  const cancelRef = useRef(false);
+
+  const pageCount = pdf?.numPages ?? 0;
+
+  // Open the document and render thumbnails one by one
+  useEffect(() => {
+      let doc: PDFDocumentProxy | null = null;
+      let disposed = false;
+
+      openPdf(base64Data)
+          .then(async loaded => {
+              doc = loaded;
+              if (disposed) return;
+              setPdf(loaded);
+              setSelected(new Set(Array.from({ length: loaded.numPages }, (_, i) => i + 1)));
+              for (let p = 1; p <= loaded.numPages && !disposed; p++) {
+                  const thumb = await renderPageThumbnail(loaded, p);
+                  if (!disposed) setThumbnails(prev => ({ ...prev, [p]: thumb }));
+              }
+          })
+          .catch(err => !disposed && setLoadError(`Could not open PDF: ${err.message}`));
+
+      return () => {
+          disposed = true;
+          cancelRef.current = true;
+          doc?.destroy();
+      };
+  }, [base64Data]);
+
+  const togglePage = (page: number) => {
+      setSelected(prev => {
+          const next = new Set(prev);
+          if (next.has(page)) next.delete(page); else next.add(page);
+          return next;
+      });
+  };
+
+  const applyRange = () => {
+      setSelected(new Set(parsePageRange(rangeInput, pageCount)));
+  };
+
+  const handleExtract = async () => {
+      if (!pdf) return;
+      const pages = Array.from<number>(selected).sort((a, b) => a - b);
+      cancelRef.current = false;
+      setIsExtracting(true);
+      setPageErrors({});
+      setStatus(Object.fromEntries(pages.map(p => [p, 'pending' as PageStatus])));
+
+      const extracted: PdfPageResult[] = [];
+      let failed = 0;
+      for (const page of pages) {
+          if (cancelRef.current) break;
+          setStatus(prev => ({ ...prev, [page]: 'working' }));
+          try {
+              const embedded = useEmbeddedText ? await extractEmbeddedText(pdf, page) : null;
+              const result = embedded !== null
+                  ? { text: embedded, confidence: undefined }
+                  : await recognizeDocument(await renderPageForOcr(pdf, page), 'image/png', ocrSettings, apiKey);
+              extracted.push({ pageNumber: page, ...result });
+              setStatus(prev => ({ ...prev, [page]: 'done' }));
+          } catch (err: any) {
+              failed++;
+              setStatus(prev => ({ ...prev, [page]: 'failed' }));
+              setPageErrors(prev => ({ ...prev, [page]: err.message }));
+          }
+      }
+
+      setIsExtracting(false);
+      setResults(extracted);
+      // Without failures there is nothing to review
+      if (!cancelRef.current && failed === 0 && extracted.length > 0) {
+          onApply(extracted, splitMode);
+      }
+  };
+
+  const doneCount = Object.values(status).filter(s => s === 'done' || s === 'failed').length;
+  const totalCount = Object.keys(status).length;
+  const failedPages = Object.keys(pageErrors).map(Number);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-[60] flex items-center justify-center p-4 animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-slate-100">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2 min-w-0">
+                <FileText size={20} className="text-primary-600 shrink-0" />
+                <span className="truncate">{fileName}</span>
+                {pageCount > 0 && <span className="text-sm font-normal text-slate-500 shrink-0">· {pageCount} page{pageCount === 1 ? '' : 's'}</span>}
+            </h2>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1" title="Close">
+                <X size={20} />
+            </button>
+        </div>
+
+        <div className="p-5 border-b border-slate-100 flex flex-wrap items-center gap-3 text-sm">
+            <input
+                type="text"
+                value={rangeInput}
+                onChange={(e) => setRangeInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && applyRange()}
+                placeholder="Pages, e.g. 1-3, 5"
+                disabled={isExtracting}
+                className="w-40 p-1.5 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+            />
+            <button onClick={applyRange} disabled={isExtracting || !pageCount} className="text-xs text-primary-600 hover:underline disabled:opacity-50">Select range</button>
+            <button onClick={() => setSelected(new Set(Array.from({ length: pageCount }, (_, i) => i + 1)))} disabled={isExtracting} className="text-xs text-primary-600 hover:underline disabled:opacity-50">All</button>
+            <button onClick={() => setSelected(new Set())} disabled={isExtracting} className="text-xs text-primary-600 hover:underline disabled:opacity-50">None</button>
+            <label className="flex items-center gap-2 text-xs text-slate-600 ml-auto cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={useEmbeddedText}
+                    onChange={(e) => setUseEmbeddedText(e.target.checked)}
+                    disabled={isExtracting}
+                    className="accent-primary-600"
+                />
+                Use the PDF's own text when it has one (skips OCR)
+            </label>
+        </div>
+
+        <div className="p-5 overflow-y-auto flex-grow">
+            {loadError && <p className="text-red-500 text-sm">{loadError}</p>}
+            {!pdf && !loadError && (
+                <div className="flex items-center justify-center py-12 text-slate-500 text-sm gap-2">
+                    <Loader2 size={18} className="animate-spin" /> Opening PDF...
+                </div>
+            )}
+            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+                {Array.from({ length: pageCount }, (_, i) => i + 1).map(page => {
+                    const isSelected = selected.has(page);
+                    const pageStatus = status[page];
+                    return (
+                        <button
+                            key={page}
+                            onClick={() => togglePage(page)}
+                            disabled={isExtracting}
+                            title={pageErrors[page] || `Page ${page}`}
+                            className={`relative rounded-lg border-2 overflow-hidden bg-slate-50 transition-all ${isSelected ? 'border-primary-500 shadow-sm' : 'border-slate-200 opacity-50 hover:opacity-80'}`}
+                        >
+                            {thumbnails[page] ? (
+                                <img src={thumbnails[page]} alt={`Page ${page}`} className="w-full h-auto block" />
+                            ) : (
+                                <div className="aspect-[3/4] flex items-center justify-center"><Loader2 size={16} className="animate-spin text-slate-300" /></div>
+                            )}
+                            <span className="absolute bottom-1 left-1 bg-white/90 text-slate-700 text-[10px] font-bold px-1.5 rounded">{page}</span>
+                            {pageStatus && pageStatus !== 'pending' && (
+                                <span className="absolute top-1 right-1 bg-white rounded-full p-0.5">
+                                    {pageStatus === 'working' && <Loader2 size={14} className="animate-spin text-primary-600" />}
+                                    {pageStatus === 'done' && <CheckCircle2 size={14} className="text-emerald-600" />}
+                                    {pageStatus === 'failed' && <AlertCircle size={14} className="text-red-500" />}
+                                </span>
+                            )}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+
+        <div className="p-5 border-t border-slate-100 space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+                {SPLIT_OPTIONS.map(opt => (
+                    <button
+                        key={opt.id}
+                        onClick={() => setSplitMode(opt.id)}
+                        disabled={isExtracting}
+                        className={`py-2 px-3 rounded-md text-left border transition-colors ${splitMode === opt.id ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+                    >
+                        <span className="block text-xs font-bold">{opt.label}</span>
+                        <span className={`block text-[11px] ${splitMode === opt.id ? 'text-primary-100' : 'text-slate-400'}`}>{opt.hint}</span>
+                    </button>
+                ))}
+            </div>
+
+            {!isExtracting && failedPages.length > 0 && (
+                <p className="text-xs text-red-600">
+                    Page{failedPages.length === 1 ? '' : 's'} {failedPages.join(', ')} failed: {pageErrors[failedPages[0]]}
+                </p>
+            )}
+
+            <div className="flex items-center gap-3">
+                {isExtracting && (
+                    <div className="flex-grow flex items-center gap-3">
+                        <div className="flex-grow h-2 bg-slate-200 rounded-full overflow-hidden">
+                            <div className="h-full bg-primary-500 transition-all" style={{ width: `${totalCount ? (doneCount / totalCount) * 100 : 0}%` }} />
+                        </div>
+                        <span className="text-xs text-slate-600 whitespace-nowrap">Page {Math.min(doneCount + 1, totalCount)} of {totalCount}</span>
+                    </div>
+                )}
+                <div className="flex gap-2 ml-auto">
+                    {isExtracting ? (
+                        <button
+                            onClick={() => { cancelRef.current = true; }}
+                            className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50"
+                        >
+                            Stop
+                        </button>
+                    ) : results.length > 0 && (
+                        <button
+                            onClick={() => onApply(results, splitMode)}
+                            className="px-4 py-2 border border-primary-300 text-primary-700 rounded-lg text-sm font-medium hover:bg-primary-50"
+                        >
+                            Use {results.length} extracted page{results.length === 1 ? '' : 's'}
+                        </button>
+                    )}
+                    <button
+                        onClick={handleExtract}
+                        disabled={isExtracting || selected.size === 0 || !pdf}
+                        className="px-4 py-2 bg-primary-600 text-white rounded-lg text-sm font-bold hover:bg-primary-700 disabled:opacity-50 flex items-center gap-2"
+                    >
+                        {isExtracting ? <Loader2 size={16} className="animate-spin" /> : <Layers size={16} />}
+                        Extract {selected.size} page{selected.size === 1 ? '' : 's'}
+                    </button>
+                </div>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfPagePicker;
@@ -0,0 +1,201 @@
+import React, { useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { VoicePersona, VoiceName, PersonaGender, PersonaAgeGroup } from '../types';
+import { BUILT_IN_PERSONAS, PERSONA_AGE_GROUPS, GEMINI_VOICES, DEFAULT_VOICE, formatVoiceLabel } from '../constants';
+import { exportPersonasJson, importPersonasJson } from '../services/personaService';
+import { Users, Plus, Trash2, ChevronDown, ChevronUp, Upload, Download } from 'lucide-react';
+
+interface PersonaLibraryPanelProps {
+  personas: VoicePersona[]; // The user's own personas (built-ins are not editable)
+  onChange: (personas: VoicePersona[]) => void;
+}
+
+const inputClass = "w-full p-1.5 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none";
+const labelClass = "block text-xs font-semibold text-slate-500 mb-1";
+
+const PersonaLibraryPanel: React.FC<PersonaLibraryPanelProps> = ({ personas, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updatePersona = (id: string, updates: Partial<VoicePersona>) => {
+      onChange(personas.map(p => p.id === id ? { ...p, ...updates } : p));
+  };
+
+  const addPersona = () => {
+      onChange([...personas, {
+          id: uuidv4(),
+          name: `Character ${personas.length + 1}`,
+          baseVoice: DEFAULT_VOICE,
+          speed: 1.0,
+          gender: 'Neutral',
+          ageGroup: 'Adult'
+      }]);
+      setIsOpen(true);
+  };
+
+  const handleExport = () => {
+      const url = URL.createObjectURL(new Blob([exportPersonasJson(personas)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'voice-personas.json';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 100);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      try {
+          onChange(importPersonasJson(await file.text(), personas));
+          setError(null);
+          setIsOpen(true);
+      } catch (err: any) {
+          setError(`Import failed: ${err.message}`);
+      }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-primary-100 p-6 mb-8">
+        <div className="flex items-center justify-between flex-wrap gap-2">
+            <button onClick={() => setIsOpen(v => !v)} className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <Users size={20} className="text-primary-600" /> Voice Personas
+                <span className="text-xs font-medium text-slate-500">({BUILT_IN_PERSONAS.length} built-in, {personas.length} custom)</span>
+                {isOpen ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+            </button>
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"
+                    title="Import personas from a JSON file"
+                >
+                    <Upload size={14} /> Import
+                </button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+                <button
+                    onClick={handleExport}
+                    disabled={personas.length === 0}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+                    title="Save your personas as a JSON file"
+                >
+                    <Download size={14} /> Export
+                </button>
+                <button
+                    onClick={addPersona}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-primary-700 border border-primary-200 rounded-lg hover:bg-primary-50 transition-colors"
+                >
+                    <Plus size={14} /> Add Persona
+                </button>
+            </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+
+        {isOpen && (
+            <div className="mt-4 space-y-3 animate-in fade-in slide-in-from-top-2">
+                {personas.length === 0 ? (
+                    <p className="text-xs text-slate-500 italic">
+                        Create named characters for your stories, e.g. "Mr. Brown" with a deep voice, slightly slower and calm. They appear in every persona picker next to the built-in ones.
+                    </p>
+                ) : personas.map(persona => (
+                    <div key={persona.id} className="grid grid-cols-2 md:grid-cols-4 gap-2 p-3 bg-slate-50 border border-slate-200 rounded-lg">
+                        <div className="col-span-2">
+                            <label className={labelClass}>Name</label>
+                            <input
+                                type="text"
+                                value={persona.name}
+                                onChange={(e) => updatePersona(persona.id, { name: e.target.value })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Gender</label>
+                            <select
+                                value={persona.gender}
+                                onChange={(e) => updatePersona(persona.id, { gender: e.target.value as PersonaGender })}
+                                className={inputClass}
+                            >
+                                <option value="Female">Female</option>
+                                <option value="Male">Male</option>
+                                <option value="Neutral">Neutral</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Age group</label>
+                            <select
+                                value={persona.ageGroup}
+                                onChange={(e) => updatePersona(persona.id, { ageGroup: e.target.value as PersonaAgeGroup })}
+                                className={inputClass}
+                            >
+                                {PERSONA_AGE_GROUPS.map(g => <option key={g.id} value={g.id}>{g.label}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Base voice</label>
+                            <select
+                                value={persona.baseVoice}
+                                onChange={(e) => updatePersona(persona.id, { baseVoice: e.target.value as VoiceName })}
+                                className={inputClass}
+                            >
+                                {GEMINI_VOICES.map(v => <option key={v.name} value={v.name}>{formatVoiceLabel(v.name)}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Speed ({Math.round(persona.speed * 100)}%)</label>
+                            <input
+                                type="range"
+                                min="0.5"
+                                max="1.5"
+                                step="0.05"
+                                value={persona.speed}
+                                onChange={(e) => updatePersona(persona.id, { speed: parseFloat(e.target.value) })}
+                                className="w-full accent-primary-600"
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Pitch ({(persona.pitch ?? 0) > 0 ? '+' : ''}{persona.pitch ?? 0} st)</label>
+                            <input
+                                type="range"
+                                min="-6"
+                                max="6"
+                                step="1"
+                                value={persona.pitch ?? 0}
+                                onChange={(e) => updatePersona(persona.id, { pitch: parseInt(e.target.value, 10) || undefined })}
+                                className="w-full accent-primary-600"
+                            />
+                        </div>
+                        <div className="flex items-end justify-end">
+                            <button
+                                onClick={() => onChange(personas.filter(p => p.id !== persona.id))}
+                                className="text-slate-400 hover:text-red-500 p-1"
+                                title="Remove persona"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                        <div className="col-span-2 md:col-span-4">
+                            <label className={labelClass}>Style prompt</label>
+                            <input
+                                type="text"
+                                value={persona.style ?? ''}
+                                onChange={(e) => updatePersona(persona.id, { style: e.target.value || undefined })}
+                                placeholder="e.g. grumpy but kind, with a slight Scottish accent"
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+                ))}
+                <p className="text-xs text-slate-500 pt-1">
+                    Personas are saved in this browser. Export them to share with colleagues or use on another computer.
+                </p>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default PersonaLibraryPanel;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { VoicePersona } from '../types';
+import { groupPersonasByAge } from '../utils/personaUtils';
+
+interface PresetOptionsProps {
+  personas: VoicePersona[];
+  showCustom?: boolean; // Current settings match no persona
+}
+
+// <option> groups for a voice persona <select>, by age
+const PresetOptions: React.FC<PresetOptionsProps> = ({ personas, showCustom = false }) => (
+    <>
+        {showCustom && <option value="" disabled>Custom (not in library)</option>}
+        {groupPersonasByAge(personas).map(group => (
+            <optgroup key={group.ageGroup} label={`--- ${group.label.toUpperCase()} ---`}>
+                {group.personas.map(persona => (
+                    <option key={persona.id} value={persona.id}>{persona.name}</option>
+                ))}
+            </optgroup>
+        ))}
+    </>
+);
+
+export default PresetOptions;
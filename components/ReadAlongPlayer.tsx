@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Segment, InputType, TimelineEntry } from '../types';
+import { BookOpen, SkipBack, SkipForward, RotateCcw, X, Music } from 'lucide-react';
+import { estimateWordTimings, tokenizeScript } from '../utils/alignmentUtils';
+
+interface ReadAlongPlayerProps {
+  audioRef: React.RefObject<HTMLAudioElement | null>;
+  buffer: AudioBuffer;
+  timeline: TimelineEntry[];
+  segments: Segment[];
+  onClose: () => void;
+}
+
+const ReadAlongPlayer: React.FC<ReadAlongPlayerProps> = ({ audioRef, buffer, timeline, segments, onClose }) => {
+  const [currentTime, setCurrentTime] = useState(0);
+
+  // Word timings are estimated once per merge
+  const cues = useMemo(() => {
+      return timeline.map(entry => {
+          const seg = segments.find(s => s.id === entry.segmentId);
+          const tokens = tokenizeScript(entry.text, seg?.inputType === InputType.DIALOGUE);
+          return { entry, words: estimateWordTimings(buffer, entry.start, entry.end, tokens) };
+      });
+  }, [buffer, timeline, segments]);
+
+  // Follow the shared preview <audio> element; rAF keeps highlighting smooth while playing
+  useEffect(() => {
+      const audio = audioRef.current;
+      if (!audio) return;
+
+      let frame = 0;
+      const tick = () => {
+          setCurrentTime(audio.currentTime);
+          if (!audio.paused) frame = requestAnimationFrame(tick);
+      };
+      const handlePlay = () => {
+          cancelAnimationFrame(frame);
+          frame = requestAnimationFrame(tick);
+      };
+      const handleSync = () => setCurrentTime(audio.currentTime);
+
+      audio.addEventListener('play', handlePlay);
+      audio.addEventListener('seeked', handleSync);
+      audio.addEventListener('pause', handleSync);
+      if (!audio.paused) handlePlay(); else handleSync();
+
+      return () => {
+          cancelAnimationFrame(frame);
+          audio.removeEventListener('play', handlePlay);
+          audio.removeEventListener('seeked', handleSync);
+          audio.removeEventListener('pause', handleSync);
+      };
+  }, [audioRef]);
+
+  // The segment stays on screen through its trailing delay
+  const currentIndex = useMemo(() => {
+      let index = 0;
+      cues.forEach((cue, i) => { if (cue.entry.start <= currentTime + 0.01) index = i; });
+      return index;
+  }, [cues, currentTime]);
+
+  const seekTo = (time: number) => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      audio.currentTime = time;
+      setCurrentTime(time);
+      audio.play();
+  };
+
+  const current = cues[currentIndex];
+
+  return (
+    <div className="fixed left-0 right-0 bottom-[88px] z-30 px-4 animate-in fade-in slide-in-from-bottom-4">
+      <div className="container mx-auto max-w-4xl bg-white rounded-xl shadow-[0_-8px_30px_rgba(0,0,0,0.12)] border border-primary-100">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+            <h2 className="text-sm font-bold text-primary-700 flex items-center gap-2">
+                <BookOpen size={18} /> Read-Along
+                <span className="bg-primary-100 text-primary-800 text-xs font-bold px-2 py-0.5 rounded-full">#{currentIndex + 1} / {cues.length}</span>
+            </h2>
+            <div className="flex items-center gap-1">
+                <button
+                    onClick={() => seekTo(cues[Math.max(0, currentIndex - 1)].entry.start)}
+                    disabled={currentIndex === 0}
+                    className="p-1.5 text-slate-500 hover:text-primary-600 disabled:opacity-30"
+                    title="Previous segment"
+                >
+                    <SkipBack size={18} />
+                </button>
+                <button
+                    onClick={() => current && seekTo(current.entry.start)}
+                    className="p-1.5 text-slate-500 hover:text-primary-600"
+                    title="Replay this segment"
+                >
+                    <RotateCcw size={18} />
+                </button>
+                <button
+                    onClick={() => seekTo(cues[Math.min(cues.length - 1, currentIndex + 1)].entry.start)}
+                    disabled={currentIndex >= cues.length - 1}
+                    className="p-1.5 text-slate-500 hover:text-primary-600 disabled:opacity-30"
+                    title="Next segment"
+                >
+                    <SkipForward size={18} />
+                </button>
+                <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 ml-2" title="Close">
+                    <X size={18} />
+                </button>
+            </div>
+        </div>
+
+        <div className="px-6 py-5 max-h-[40vh] overflow-y-auto text-2xl leading-relaxed font-medium">
+            {!current || current.words.length === 0 ? (
+                <p className="text-slate-400 text-base italic flex items-center gap-2">
+                    <Music size={18} /> No script for this segment
+                </p>
+            ) : (
+                <p>
+                    {current.words.map((word, i) => {
+                        const isActive = word.spoken && currentTime >= word.start && currentTime < word.end;
+                        const isPast = word.spoken && currentTime >= word.end;
+                        return (
+                            <React.Fragment key={i}>
+                                {word.lineStart && i > 0 && <br />}
+                                <span
+                                    onClick={() => seekTo(word.start)}
+                                    className={`cursor-pointer rounded px-0.5 transition-colors ${
+                                        !word.spoken ? 'text-primary-700 font-bold text-lg' :
+                                        isActive ? 'bg-yellow-300 text-slate-900' :
+                                        isPast ? 'text-slate-800' : 'text-slate-400 hover:text-slate-600'
+                                    }`}
+                                >
+                                    {word.text}
+                                </span>{' '}
+                            </React.Fragment>
+                        );
+                    })}
+                </p>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReadAlongPlayer;
@@ -1,9 +1,33 @@
 
 import React, { useMemo, useEffect, useState, useRef } from 'react';
-import { Segment, InputType, VoiceName } from '../types';
-import { extractTextFromMedia, generateSpeech } from '../services/geminiService';
-import { Trash2, FileText, Type, Upload, Music, Loader2, Download, PlayCircle, Clock, Scissors, Pause, Play, RotateCcw } from 'lucide-react';
-import { base64ToUint8Array, createWavHeader, decodeRawPCM, resampleAudioBuffer, bufferToWav, trimAudioBuffer } from '../utils/audioUtils';
+import { Segment, InputType, VoiceName, DialogueSpeaker, ExportSettings, SpeechVoice, SpeechProviderId, OcrSettings, OcrProviderId, StylePreset, VoicePersona, SegmentLoudness, TransitionType, FadeCurve, SilenceSettings, OutputSettings } from '../types';
+import { OCR_PROVIDERS, getOcrProvider, recognizeDocument } from '../services/ocrProvider';
+import { generateSegmentAudio, getGenerationError } from '../services/generationService';
+import { SPEECH_PROVIDERS, getSpeechProvider, resolveSegmentSpeech, canUseProvider, SpeechContext } from '../services/speechProvider';
+import { Trash2, FileText, Type, Upload, Music, Loader2, Download, PlayCircle, Clock, Scissors, Pause, Play, RotateCcw, MessagesSquare, Gauge, AudioLines, ClipboardCheck, Database, ShieldCheck, ScanText, Drama, Library, Headphones, Blend } from 'lucide-react';
+import { base64ToUint8Array, createWavHeader, decodeRawPCM, resampleAudioBuffer, applyTempoAndPitch, trimAudioBuffer, convertSampleRate } from '../utils/audioUtils';
+import { encodeAudioBuffer, getExportExtension } from '../services/exportService';
+import { parseDialogue, getSpeakers, assignSpeakerVoices } from '../utils/dialogueUtils';
+import { OCR_LANGUAGES, formatVoiceLabel, TRANSITION_TYPES, FADE_CURVES, DEFAULT_TRANSITION } from '../constants';
+import { findPersona, matchPersona, matchSpeakerPersona, personaToSegment, personaToSpeaker } from '../utils/personaUtils';
+import PresetOptions from './PresetOptions';
+import PdfPagePicker, { PdfPageResult, PdfSplitMode } from './PdfPagePicker';
+import OcrReviewPane from './OcrReviewPane';
+import VoiceBrowser from './VoiceBrowser';
+import { stripSpeechMarkup } from '../utils/speechMarkup';
+import { formatLoudness } from '../utils/loudnessUtils';
+import { autoTrimSegment } from '../services/silenceService';
+import { splitScript } from '../utils/scriptSplitter';
+import { createSegment, getSegmentSpeed } from '../utils/segmentUtils';
+
+// "2s", or "0.5s overlap" for negative delays
+const formatDelay = (delay: number) => delay < 0 ? `${-delay}s overlap` : `${delay}s`;
+
+// "L 40", "Centre", "R 100"
+const formatPan = (pan: number = 0) => {
+    if (Math.abs(pan) < 0.05) return 'Centre';
+    return `${pan < 0 ? 'L' : 'R'} ${Math.round(Math.abs(pan) * 100)}`;
+};
 
 interface SegmentItemProps {
   segment: Segment;
@@ -11,36 +35,29 @@ interface SegmentItemProps {
   onRemove: (id: string) => void;
   index: number;
   apiKey: string; // Add apiKey prop
+  exportSettings: ExportSettings;
+  outputSettings: OutputSettings; // Sample rate and bit depth for downloads
+  testMode?: boolean; // Show listening test options (question, repeats, answer)
+  speechContext: SpeechContext; // Engine settings, API key and lexicon for generation
+  localVoices: SpeechVoice[];
+  ocrSettings: OcrSettings;
+  onOcrSettingsChange: (updates: Partial<OcrSettings>) => void;
+  onInsertAfter: (id: string, segments: Segment[]) => void;
+  stylePresets: StylePreset[];
+  personas: VoicePersona[];
+  loudness?: SegmentLoudness; // From the last preview
+  silenceSettings: SilenceSettings;
 }
 
-// Extended voice presets using Speed/Pitch shifting
-const VOICE_PRESETS = [
-    { label: "--- CHILDREN ---", options: [
-        { id: 'boy_1', label: 'Little Boy', voice: VoiceName.Puck, speed: 1.2 },
-        { id: 'girl_1', label: 'Little Girl', voice: VoiceName.Kore, speed: 1.25 },
-        { id: 'boy_teen', label: 'Teen Boy', voice: VoiceName.Fenrir, speed: 1.1 },
-        { id: 'girl_teen', label: 'Teen Girl', voice: VoiceName.Zephyr, speed: 1.15 },
-    ]},
-    { label: "--- ADULTS (Standard) ---", options: [
-        { id: 'man_1', label: 'Man (Neutral)', voice: VoiceName.Puck, speed: 1.0 },
-        { id: 'man_2', label: 'Man (Deep)', voice: VoiceName.Charon, speed: 1.0 },
-        { id: 'man_3', label: 'Man (Bass)', voice: VoiceName.Fenrir, speed: 1.0 },
-        { id: 'woman_1', label: 'Woman (Calm)', voice: VoiceName.Kore, speed: 1.0 },
-        { id: 'woman_2', label: 'Woman (Bright)', voice: VoiceName.Zephyr, speed: 1.0 },
-    ]},
-    { label: "--- ELDERS ---", options: [
-        { id: 'old_man_1', label: 'Old Man (Wise)', voice: VoiceName.Charon, speed: 0.9 },
-        { id: 'old_man_2', label: 'Grandpa (Slow)', voice: VoiceName.Fenrir, speed: 0.85 },
-        { id: 'old_woman_1', label: 'Grandma', voice: VoiceName.Kore, speed: 0.9 },
-        { id: 'old_woman_2', label: 'Old Woman (Slow)', voice: VoiceName.Zephyr, speed: 0.85 },
-    ]}
-];
-
-const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove, index, apiKey }) => {
+const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove, index, apiKey, exportSettings, outputSettings, testMode = false, speechContext, localVoices, ocrSettings, onOcrSettingsChange, onInsertAfter, stylePresets, personas, loudness, silenceSettings }) => {
   const [isProcessingDownload, setIsProcessingDownload] = useState(false);
+  const [isTrimmingSilence, setIsTrimmingSilence] = useState(false);
   const [showTrimmer, setShowTrimmer] = useState(false);
   const [isPlayingPreview, setIsPlayingPreview] = useState(false);
   const [currentPlayTime, setCurrentPlayTime] = useState(0); // For visual playhead
+  const [showOcrReview, setShowOcrReview] = useState(false);
+  const [pdfImport, setPdfImport] = useState<{ base64Data: string; fileName: string } | null>(null);
+  const [voiceBrowser, setVoiceBrowser] = useState<{ speaker?: string } | null>(null); // Segment voice, or one dialogue speaker
   
   // Trimmer State
   const rulerRef = useRef<HTMLDivElement>(null);
@@ -192,8 +209,9 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (!apiKey) {
-        onChange(segment.id, { error: "Please enter your API Key at the top of the page first." });
+    const ocrProvider = getOcrProvider(ocrSettings.provider);
+    if (ocrProvider.requiresApiKey && !apiKey) {
+        onChange(segment.id, { error: "Please enter your API Key at the top of the page first, or switch to local OCR." });
         return;
     }
 
@@ -201,17 +219,25 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
     reader.onloadend = async () => {
         const base64String = reader.result as string;
         const base64Data = base64String.split(',')[1];
+
+        // PDFs go through the page picker
+        if (file.type === 'application/pdf') {
+            setPdfImport({ base64Data, fileName: file.name });
+            return;
+        }
+
         onChange(segment.id, {
             isExtracting: true,
             fileData: base64Data,
             fileName: file.name,
             fileMimeType: file.type,
+            ocrConfidence: undefined,
             error: undefined
         });
 
         try {
-            const extracted = await extractTextFromMedia(base64Data, file.type, apiKey);
-            onChange(segment.id, { isExtracting: false, textRaw: extracted });
+            const result = await recognizeDocument(base64Data, file.type, ocrSettings, apiKey);
+            onChange(segment.id, { isExtracting: false, textRaw: result.text, ocrConfidence: result.confidence });
         } catch (err: any) {
             onChange(segment.id, { isExtracting: false, error: `Extraction failed: ${err.message}` });
         }
@@ -219,6 +245,44 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
     reader.readAsDataURL(file);
   };
 
+  const handlePdfPagesApply = (pages: PdfPageResult[], mode: PdfSplitMode) => {
+      if (!pdfImport) return;
+
+      let chunks: string[];
+      if (mode === 'single') {
+          chunks = [pages.map(p => p.text).join('\n\n')];
+      } else if (mode === 'page') {
+          chunks = pages.map(p => p.text);
+      } else {
+          chunks = pages.flatMap(p => splitScript(p.text, 'paragraph').map(c => c.text));
+      }
+      chunks = chunks.filter(text => text.trim());
+
+      const confidences = pages.map(p => p.confidence).filter((c): c is number => c !== undefined);
+      onChange(segment.id, {
+          fileData: pdfImport.base64Data,
+          fileName: pdfImport.fileName,
+          fileMimeType: 'application/pdf',
+          textRaw: chunks[0] ?? '',
+          ocrConfidence: confidences.length ? Math.round(confidences.reduce((a, b) => a + b, 0) / confidences.length) : undefined,
+          error: chunks.length === 0 ? "No text found on the chosen pages." : undefined
+      });
+
+      // Further pages/passages become text segments with this segment's voice settings
+      if (chunks.length > 1) {
+          onInsertAfter(segment.id, chunks.slice(1).map(text => createSegment({
+              textRaw: text,
+              voice: segment.voice,
+              speed: segment.speed,
+              delay: segment.delay,
+              provider: segment.provider,
+              providerVoice: segment.providerVoice,
+              style: segment.style
+          })));
+      }
+      setPdfImport(null);
+  };
+
   // Handle Audio File Upload and Get Duration
   const handleAudioFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
@@ -250,51 +314,72 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
       };
   };
 
-  const handleGenerateAudio = async () => {
-    if (!apiKey) {
-        onChange(segment.id, { error: "Please enter your API Key at the top of the page first." });
-        return;
-    }
+  const speechSettings = speechContext.settings;
+  const speechProvider = resolveSegmentSpeech(segment, speechSettings).provider;
+  const canGenerate = canUseProvider(speechProvider, apiKey);
+  const stylePreset = stylePresets.find(p => p.instruction === segment.style);
 
-    if (!segment.textRaw.trim()) {
-        onChange(segment.id, { error: "Please enter some text first." });
+  const handleGenerateAudio = async () => {
+    const validationError = getGenerationError(segment, speechContext);
+    if (validationError) {
+        onChange(segment.id, { error: validationError });
         return;
     }
 
-    onChange(segment.id, { isGeneratingAudio: true, error: undefined, audioBase64: null });
+    onChange(segment.id, { isGeneratingAudio: true, error: undefined, audioBase64: null, audioFromCache: false });
 
     try {
-        const audioData = await generateSpeech(segment.textRaw, segment.voice, apiKey);
-        onChange(segment.id, { isGeneratingAudio: false, audioBase64: audioData });
+        const speech = await generateSegmentAudio(segment, speechContext);
+        onChange(segment.id, { isGeneratingAudio: false, audioBase64: speech.audioBase64, audioFromCache: speech.fromCache });
     } catch (err: any) {
         onChange(segment.id, { isGeneratingAudio: false, error: `TTS failed: ${err.message}` });
     }
   };
 
+  const handleTrimSilence = async () => {
+      setIsTrimmingSilence(true);
+      try {
+          const trim = await autoTrimSegment(segment, silenceSettings);
+          onChange(segment.id, trim ? { ...trim, error: undefined } : { error: "No sound found above the silence threshold." });
+      } catch (err: any) {
+          onChange(segment.id, { error: `Silence trimming failed: ${err.message}` });
+      } finally {
+          setIsTrimmingSilence(false);
+      }
+  };
+
+  // Generated speech keeps its trim points as numbers; uploads use the trimmer
+  const isSpeechTrimmed = segment.inputType !== InputType.AUDIO && segment.trimStart !== undefined && segment.trimEnd !== undefined;
+
   const handleDownloadSingle = async () => {
     if (segment.inputType === InputType.AUDIO && segment.uploadedAudioURL) {
-        // For uploaded files, if trimmed, we need to process it first
-        if (segment.trimStart !== undefined && segment.trimEnd !== undefined && segment.duration && (segment.trimStart > 0 || segment.trimEnd < segment.duration)) {
+        const isTrimmed = segment.trimStart !== undefined && segment.trimEnd !== undefined && !!segment.duration && (segment.trimStart > 0 || segment.trimEnd < segment.duration);
+
+        // For uploaded files, if trimmed or converted, we need to process it first
+        if (isTrimmed || exportSettings.format !== 'wav') {
              setIsProcessingDownload(true);
              try {
-                const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+                // Decoding converts the file to the project's output rate
+                const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: outputSettings.sampleRate });
                 const response = await fetch(segment.uploadedAudioURL);
                 const arrayBuffer = await response.arrayBuffer();
                 const decoded = await audioContext.decodeAudioData(arrayBuffer);
-                const trimmed = trimAudioBuffer(decoded, segment.trimStart, segment.trimEnd);
+                const trimmed = isTrimmed ? trimAudioBuffer(decoded, segment.trimStart!, segment.trimEnd!) : decoded;
                 
-                const wavBlob = bufferToWav(trimmed);
-                const url = URL.createObjectURL(wavBlob);
+                const blob = await encodeAudioBuffer(trimmed, exportSettings, outputSettings.bitDepth);
+                const url = URL.createObjectURL(blob);
+                const baseName = (segment.fileName || 'audio').replace(/\.[^.]+$/, '');
                 
                 const link = document.createElement("a");
                 link.href = url;
-                link.download = `trimmed_${segment.fileName || 'audio.wav'}`;
+                link.download = `${isTrimmed ? 'trimmed_' : ''}${baseName}.${getExportExtension(exportSettings.format)}`;
                 document.body.appendChild(link);
                 link.click();
                 document.body.removeChild(link);
                 setTimeout(() => URL.revokeObjectURL(url), 100);
              } catch(e) {
                  console.error(e);
+                 onChange(segment.id, { error: "Failed to prepare download." });
              } finally {
                  setIsProcessingDownload(false);
              }
@@ -313,15 +398,19 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
     if (segment.audioBase64) {
         setIsProcessingDownload(true);
         try {
-            const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            const rawBuffer = await decodeRawPCM(segment.audioBase64, audioContext);
-            const processedBuffer = await resampleAudioBuffer(rawBuffer, segment.speed);
-            const wavBlob = bufferToWav(processedBuffer);
-            const url = URL.createObjectURL(wavBlob);
+            const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: outputSettings.sampleRate });
+            const decodedPcm = await decodeRawPCM(segment.audioBase64, audioContext);
+            const rawBuffer = isSpeechTrimmed ? trimAudioBuffer(decodedPcm, segment.trimStart!, segment.trimEnd!) : decodedPcm;
+            const personaBuffer = await resampleAudioBuffer(rawBuffer, getSegmentSpeed(segment));
+            const shapedBuffer = await applyTempoAndPitch(personaBuffer, segment.tempo, segment.pitch);
+            // Upsample the 24kHz speech to the output rate
+            const processedBuffer = await convertSampleRate(shapedBuffer, audioContext.sampleRate);
+            const blob = await encodeAudioBuffer(processedBuffer, exportSettings, outputSettings.bitDepth);
+            const url = URL.createObjectURL(blob);
             
             const link = document.createElement("a");
             link.href = url;
-            link.download = `segment_${index + 1}_${segment.voice}.wav`;
+            link.download = `segment_${index + 1}_${segment.voice}.${getExportExtension(exportSettings.format)}`;
             document.body.appendChild(link);
             link.click();
             document.body.removeChild(link);
@@ -418,34 +507,60 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
       }
   };
 
-  // Find current preset ID based on voice and speed
-  const currentPresetId = useMemo(() => {
-      for (const group of VOICE_PRESETS) {
-          for (const opt of group.options) {
-              if (opt.voice === segment.voice && Math.abs(opt.speed - segment.speed) < 0.01) {
-                  return opt.id;
-              }
-          }
-      }
-      return 'man_1'; // Default
-  }, [segment.voice, segment.speed]);
+  const currentPersona = useMemo(
+      () => matchPersona(personas, segment.voice, segment.speed, { pitch: segment.pitch, style: segment.style }),
+      [personas, segment.voice, segment.speed, segment.pitch, segment.style]
+  );
 
   const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-      const id = e.target.value;
-      for (const group of VOICE_PRESETS) {
-        for (const opt of group.options) {
-            if (opt.id === id) {
-                onChange(segment.id, { 
-                    voice: opt.voice, 
-                    speed: opt.speed, 
-                    audioBase64: null 
-                });
-                return;
-            }
-        }
+      const persona = findPersona(personas, e.target.value);
+      if (persona) {
+          onChange(segment.id, { 
+              ...personaToSegment(persona),
+              audioBase64: null 
+          });
       }
   };
 
+  // --- Dialogue Logic ---
+
+  const dialogueLines = useMemo(
+      () => segment.inputType === InputType.DIALOGUE ? parseDialogue(segment.textRaw) : [],
+      [segment.inputType, segment.textRaw]
+  );
+
+  const dialogueSpeakers: Record<string, DialogueSpeaker> = segment.speakers || {};
+  const speakerCount = Object.keys(dialogueSpeakers).length;
+
+  const handleDialogueTextChange = (text: string) => {
+      const speakers = getSpeakers(parseDialogue(text));
+      onChange(segment.id, { textRaw: text, speakers: assignSpeakerVoices(speakers, segment.speakers) });
+  };
+
+  const handleSpeakerPresetChange = (speaker: string, personaId: string) => {
+      const persona = findPersona(personas, personaId);
+      if (!persona) return;
+      onChange(segment.id, {
+          speakers: { ...dialogueSpeakers, [speaker]: personaToSpeaker(persona) },
+          audioBase64: null
+      });
+  };
+
+  const handleBrowsedVoice = (voice: VoiceName) => {
+      const speaker = voiceBrowser?.speaker;
+      if (speaker && dialogueSpeakers[speaker]) {
+          onChange(segment.id, { speakers: { ...dialogueSpeakers, [speaker]: { ...dialogueSpeakers[speaker], voice } }, audioBase64: null });
+      } else {
+          onChange(segment.id, { voice, audioBase64: null });
+      }
+      setVoiceBrowser(null);
+  };
+
+  // Auditions read the speaker's first line, or the start of the segment text
+  const auditionText = voiceBrowser?.speaker
+      ? dialogueLines.find(l => l.speaker === voiceBrowser.speaker)?.text ?? ''
+      : segment.textRaw;
+
   // Calculate percentages for ruler
   const startPct = segment.duration ? ((segment.trimStart || 0) / segment.duration) * 100 : 0;
   const endPct = segment.duration ? ((segment.trimEnd ?? segment.duration) / segment.duration) * 100 : 100;
@@ -454,10 +569,54 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 transition-all hover:shadow-md">
+      {showOcrReview && segment.fileData && segment.fileMimeType && (
+          <OcrReviewPane
+              fileName={segment.fileName || 'Document'}
+              fileData={segment.fileData}
+              mimeType={segment.fileMimeType}
+              text={segment.textRaw}
+              confidence={segment.ocrConfidence}
+              ocrSettings={ocrSettings}
+              apiKey={apiKey}
+              onSave={(text, confidence) => {
+                  onChange(segment.id, { textRaw: text, ocrConfidence: confidence });
+                  setShowOcrReview(false);
+              }}
+              onClose={() => setShowOcrReview(false)}
+          />
+      )}
+      {voiceBrowser && (
+          <VoiceBrowser
+              apiKey={apiKey}
+              sampleText={stripSpeechMarkup(auditionText)}
+              currentVoice={voiceBrowser.speaker ? dialogueSpeakers[voiceBrowser.speaker]?.voice ?? segment.voice : segment.voice}
+              onSelect={handleBrowsedVoice}
+              onClose={() => setVoiceBrowser(null)}
+          />
+      )}
+      {pdfImport && (
+          <PdfPagePicker
+              fileName={pdfImport.fileName}
+              base64Data={pdfImport.base64Data}
+              ocrSettings={ocrSettings}
+              apiKey={apiKey}
+              onApply={handlePdfPagesApply}
+              onClose={() => setPdfImport(null)}
+          />
+      )}
+
       <div className="flex justify-between items-start mb-4">
         <h3 className="text-lg font-semibold text-primary-700 flex items-center gap-2">
             <span className="bg-primary-100 text-primary-800 text-xs font-bold px-2 py-1 rounded-full">#{index + 1}</span>
             Segment
+            {loudness && (
+                <span
+                    className="text-xs font-medium text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full"
+                    title={`Measured at the last preview${loudness.gain ? `; adjusted by ${loudness.gain > 0 ? '+' : ''}${loudness.gain.toFixed(1)} dB` : ''}`}
+                >
+                    {formatLoudness(loudness.measured)}
+                </span>
+            )}
         </h3>
         <button 
             onClick={() => onRemove(segment.id)}
@@ -500,6 +659,19 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
                 />
                 <Music size={18} /> Upload Audio File
             </label>
+            <label className={`flex items-center gap-2 cursor-pointer transition-colors ${segment.inputType === InputType.DIALOGUE ? 'text-primary-600 font-bold' : 'text-slate-500 hover:text-primary-500'}`}>
+                <input 
+                    type="radio" 
+                    name={`type-${segment.id}`} 
+                    checked={segment.inputType === InputType.DIALOGUE}
+                    onChange={() => onChange(segment.id, { 
+                        inputType: InputType.DIALOGUE, 
+                        speakers: assignSpeakerVoices(getSpeakers(parseDialogue(segment.textRaw)), segment.speakers) 
+                    })}
+                    className="hidden"
+                />
+                <MessagesSquare size={18} /> Dialogue
+            </label>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-12 gap-6">
@@ -508,12 +680,65 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
             
             {/* TEXT INPUT */}
             {segment.inputType === InputType.TEXT && (
-                <textarea
-                    className="w-full h-40 p-4 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none resize-none bg-white text-black font-medium leading-relaxed"
-                    placeholder="Enter English text here..."
-                    value={segment.textRaw}
-                    onChange={(e) => onChange(segment.id, { textRaw: e.target.value })}
-                />
+                <div className="space-y-1">
+                    <textarea
+                        className="w-full h-40 p-4 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none resize-none bg-white text-black font-medium leading-relaxed"
+                        placeholder="Enter English text here..."
+                        value={segment.textRaw}
+                        onChange={(e) => onChange(segment.id, { textRaw: e.target.value })}
+                    />
+                    <p className="text-xs text-slate-400">
+                        Markup: <code>[pause 2s]</code> adds silence, <code>*word*</code> stresses a word, <code>[spell USA]</code> reads letters.
+                    </p>
+                </div>
+            )}
+
+            {/* DIALOGUE INPUT */}
+            {segment.inputType === InputType.DIALOGUE && (
+                <div className="space-y-3">
+                    <textarea
+                        className="w-full h-40 p-4 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none resize-none bg-white text-black font-medium leading-relaxed"
+                        placeholder={"A: Good morning, how are you?\nB: I'm fine, thank you."}
+                        value={segment.textRaw}
+                        onChange={(e) => handleDialogueTextChange(e.target.value)}
+                    />
+                    <p className="text-xs text-slate-500">
+                        {dialogueLines.length} line{dialogueLines.length === 1 ? '' : 's'}, {speakerCount} speaker{speakerCount === 1 ? '' : 's'}. Start each line with a speaker label, e.g. "Tom:".
+                    </p>
+                </div>
+            )}
+
+            {/* OCR Engine & Language */}
+            {segment.inputType === InputType.FILE && (
+                <div className="grid grid-cols-2 gap-3 mb-3">
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-500 mb-1">OCR engine</label>
+                        <select
+                            value={ocrSettings.provider}
+                            onChange={(e) => onOcrSettingsChange({ provider: e.target.value as OcrProviderId })}
+                            disabled={segment.isExtracting}
+                            className="w-full p-1.5 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                        >
+                            {OCR_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-500 mb-1">Language</label>
+                        <select
+                            value={ocrSettings.language}
+                            onChange={(e) => onOcrSettingsChange({ language: e.target.value })}
+                            disabled={segment.isExtracting}
+                            className="w-full p-1.5 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                        >
+                            {OCR_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                        </select>
+                    </div>
+                    {getOcrProvider(ocrSettings.provider).isLocal && (
+                        <p className="col-span-2 text-xs text-emerald-700 flex items-center gap-1">
+                            <ShieldCheck size={12} /> Pages are read on this device and never uploaded. The first run downloads the language data.
+                        </p>
+                    )}
+                </div>
             )}
 
             {/* OCR FILE INPUT */}
@@ -667,9 +892,31 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
             )}
 
             {/* Editable OCR Result */}
-            {segment.inputType === InputType.FILE && !segment.isExtracting && segment.textRaw && (
+            {segment.inputType === InputType.FILE && !segment.isExtracting && (segment.textRaw || segment.fileData) && (
                  <div className="mt-2 animate-in fade-in">
-                    <label className="text-xs font-semibold text-slate-500 uppercase mb-1 block">Extracted Text</label>
+                    <div className="flex items-center justify-between mb-1 gap-2">
+                        <label className="text-xs font-semibold text-slate-500 uppercase block">Extracted Text</label>
+                        {segment.fileData && segment.fileMimeType && (
+                            <button
+                                onClick={() => setShowOcrReview(true)}
+                                className="ml-auto text-xs text-primary-600 hover:underline flex items-center gap-1"
+                            >
+                                <ScanText size={12} /> Review with source
+                            </button>
+                        )}
+                        {segment.ocrConfidence !== undefined && (
+                            <span
+                                className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded border ${
+                                    segment.ocrConfidence >= 85 ? 'text-emerald-700 bg-emerald-50 border-emerald-200' :
+                                    segment.ocrConfidence >= 60 ? 'text-amber-700 bg-amber-50 border-amber-200' :
+                                    'text-red-700 bg-red-50 border-red-200'
+                                }`}
+                                title="Average recognition confidence; check the text carefully when it is low"
+                            >
+                                Confidence {segment.ocrConfidence}%
+                            </span>
+                        )}
+                    </div>
                     <textarea
                         className="w-full h-32 p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 text-sm bg-white text-black"
                         value={segment.textRaw}
@@ -683,24 +930,163 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
         <div className="md:col-span-5 flex flex-col justify-between bg-slate-50 rounded-lg p-4 border border-slate-100">
             <div className="space-y-5">
                 
-                {/* Voice Selection (Only for Text/OCR) */}
+                {/* Speaker Voices (Only for Dialogue) */}
+                {segment.inputType === InputType.DIALOGUE && (
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 mb-2">Speaker Personas</label>
+                        {speakerCount === 0 ? (
+                            <p className="text-xs text-slate-500 italic">Speakers will appear here once you type the dialogue.</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {Object.entries(dialogueSpeakers).map(([speaker, persona]) => (
+                                    <div key={speaker} className="flex items-center gap-2">
+                                        <span className="w-20 shrink-0 text-xs font-bold text-slate-600 truncate" title={speaker}>{speaker}</span>
+                                        <select 
+                                            value={matchSpeakerPersona(personas, persona)?.id ?? ''} 
+                                            onChange={(e) => handleSpeakerPresetChange(speaker, e.target.value)}
+                                            className="flex-grow p-1.5 border border-slate-300 rounded-md bg-white text-slate-800 text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                                        >
+                                            <PresetOptions personas={personas} showCustom={!matchSpeakerPersona(personas, persona)} />
+                                        </select>
+                                        <button
+                                            onClick={() => setVoiceBrowser({ speaker })}
+                                            className="p-1.5 text-slate-400 hover:text-primary-600 shrink-0"
+                                            title={`Browse voices for ${speaker} (now ${persona.voice})`}
+                                        >
+                                            <Library size={16} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <p className="text-xs text-slate-500 mt-1">Two speakers at normal speed and pitch, without their own style, are voiced in one request; otherwise lines are generated separately and joined.</p>
+                    </div>
+                )}
+
+                {/* Speech Engine (Only for generated speech) */}
                 {segment.inputType !== InputType.AUDIO && (
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 mb-2">Speech Engine</label>
+                        <select
+                            value={segment.provider ?? ''}
+                            onChange={(e) => onChange(segment.id, { provider: (e.target.value || undefined) as SpeechProviderId | undefined, audioBase64: null })}
+                            className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                        >
+                            <option value="">Project default ({getSpeechProvider(speechSettings.provider).label})</option>
+                            {SPEECH_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                        </select>
+                        {speechProvider.id === 'local' && (
+                            <>
+                                <select
+                                    value={segment.providerVoice ?? ''}
+                                    onChange={(e) => onChange(segment.id, { providerVoice: e.target.value || undefined, audioBase64: null })}
+                                    className="w-full mt-2 p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                                >
+                                    <option value="">Project voice ({speechSettings.localVoice || 'server default'})</option>
+                                    {localVoices.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+                                </select>
+                                {segment.inputType === InputType.DIALOGUE && (
+                                    <p className="text-xs text-slate-500 mt-1">The local engine reads every speaker with this voice; persona speeds still apply.</p>
+                                )}
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {/* Voice Selection (Only for Text/OCR on Gemini) */}
+                {segment.inputType !== InputType.AUDIO && segment.inputType !== InputType.DIALOGUE && speechProvider.id === 'gemini' && (
                     <div>
                         <label className="block text-sm font-bold text-slate-700 mb-2">Select Voice Persona</label>
                         <select 
-                            value={currentPresetId} 
+                            value={currentPersona?.id ?? ''} 
                             onChange={handlePresetChange}
                             className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 focus:ring-2 focus:ring-primary-500 outline-none"
                         >
-                            {VOICE_PRESETS.map((group, gIdx) => (
-                                <optgroup key={gIdx} label={group.label}>
-                                    {group.options.map(opt => (
-                                        <option key={opt.id} value={opt.id}>{opt.label}</option>
-                                    ))}
-                                </optgroup>
-                            ))}
+                            <PresetOptions personas={personas} showCustom={!currentPersona} />
                         </select>
-                        <p className="text-xs text-slate-500 mt-1">Includes Age & Gender variations.</p>
+                        <div className="flex items-center justify-between gap-2 mt-1">
+                            <p className="text-xs text-slate-500">
+                                {currentPersona
+                                    ? `${currentPersona.gender} · ${formatVoiceLabel(currentPersona.baseVoice)} · ${Math.round(currentPersona.speed * 100)}% speed`
+                                    : `Custom: ${formatVoiceLabel(segment.voice)} at ${Math.round(segment.speed * 100)}% speed.`}
+                            </p>
+                            <button
+                                onClick={() => setVoiceBrowser({})}
+                                className="text-xs text-primary-600 hover:underline flex items-center gap-1 shrink-0"
+                            >
+                                <Library size={12} /> Browse voices
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {/* Delivery Style (Only for generated speech) */}
+                {segment.inputType !== InputType.AUDIO && (
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 mb-2 flex items-center gap-1"><Drama size={14}/> Delivery Style</label>
+                        <select
+                            value={!segment.style ? '' : stylePreset ? stylePreset.id : 'custom'}
+                            onChange={(e) => onChange(segment.id, {
+                                style: stylePresets.find(p => p.id === e.target.value)?.instruction,
+                                audioBase64: null
+                            })}
+                            disabled={!speechProvider.supportsStyle}
+                            className="w-full p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm focus:ring-2 focus:ring-primary-500 outline-none disabled:opacity-50"
+                        >
+                            <option value="">Neutral (no direction)</option>
+                            {stylePresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            {segment.style && !stylePreset && <option value="custom">Custom</option>}
+                        </select>
+                        <input
+                            type="text"
+                            value={segment.style ?? ''}
+                            onChange={(e) => onChange(segment.id, { style: e.target.value || undefined, audioBase64: null })}
+                            disabled={!speechProvider.supportsStyle}
+                            placeholder="Or describe it, e.g. in a tired, sleepy voice"
+                            className="w-full mt-2 p-2 border border-slate-300 rounded-md bg-white text-slate-800 text-sm focus:ring-2 focus:ring-primary-500 outline-none disabled:opacity-50"
+                        />
+                        <p className="text-xs text-slate-500 mt-1">
+                            {speechProvider.supportsStyle
+                                ? 'Tells the voice how to read: mood, energy or accent.'
+                                : `${speechProvider.label} does not follow style directions.`}
+                        </p>
+                    </div>
+                )}
+
+                {/* Tempo & Pitch (Only for generated speech) */}
+                {segment.inputType !== InputType.AUDIO && (
+                    <div className="space-y-3">
+                        <div>
+                            <label className="block text-sm font-bold text-slate-700 mb-2 flex items-center justify-between">
+                                <span className="flex items-center gap-1"><Gauge size={14}/> Tempo</span>
+                                <span className="bg-slate-200 text-slate-700 px-2 py-0.5 rounded text-xs">{Math.round((segment.tempo ?? 1.0) * 100)}%</span>
+                            </label>
+                            <input 
+                                type="range" 
+                                min="0.5" 
+                                max="1.5" 
+                                step="0.05" 
+                                value={segment.tempo ?? 1.0}
+                                onChange={(e) => onChange(segment.id, { tempo: parseFloat(e.target.value) })}
+                                className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-primary-600"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-bold text-slate-700 mb-2 flex items-center justify-between">
+                                <span className="flex items-center gap-1"><AudioLines size={14}/> Pitch</span>
+                                <span className="bg-slate-200 text-slate-700 px-2 py-0.5 rounded text-xs">{(segment.pitch ?? 0) > 0 ? '+' : ''}{segment.pitch ?? 0} st</span>
+                            </label>
+                            <input 
+                                type="range" 
+                                min="-6" 
+                                max="6" 
+                                step="1" 
+                                value={segment.pitch ?? 0}
+                                onChange={(e) => onChange(segment.id, { pitch: parseInt(e.target.value, 10) })}
+                                className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-primary-600"
+                            />
+                        </div>
+                        <p className="text-xs text-slate-500">Tempo keeps the voice pitch; slow down for beginners without distortion.</p>
                     </div>
                 )}
 
@@ -708,33 +1094,160 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
                 <div>
                     <label className="block text-sm font-bold text-slate-700 mb-2 flex items-center justify-between">
                         <span className="flex items-center gap-1"><Clock size={14}/> Delay after segment</span>
-                        <span className="bg-slate-200 text-slate-700 px-2 py-0.5 rounded text-xs">{segment.delay}s</span>
+                        <span className="bg-slate-200 text-slate-700 px-2 py-0.5 rounded text-xs">
+                            {segment.transition?.type === 'crossfade' && !testMode ? 'Set by crossfade' : formatDelay(segment.delay)}
+                        </span>
                     </label>
                     <input 
                         type="range" 
-                        min="0" 
+                        min={testMode ? 0 : -2} 
                         max="5" 
-                        step="0.5" 
+                        step="0.25" 
                         value={segment.delay}
                         onChange={(e) => onChange(segment.id, { delay: parseFloat(e.target.value) })}
-                        className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-primary-600"
+                        disabled={segment.transition?.type === 'crossfade' && !testMode}
+                        className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-primary-600 disabled:opacity-40"
+                        title="Below zero, the next segment starts before this one ends"
                     />
                 </div>
 
+                {/* Transition into the next segment (test sections keep plain gaps) */}
+                {!testMode && (
+                    <div className="space-y-2">
+                        <label className="block text-sm font-bold text-slate-700 flex items-center gap-1">
+                            <Blend size={14}/> Transition to next
+                        </label>
+                        <div className="flex gap-2">
+                            <select
+                                value={segment.transition?.type ?? 'cut'}
+                                onChange={(e) => {
+                                    const type = e.target.value as TransitionType;
+                                    onChange(segment.id, { transition: type === 'cut' ? undefined : { ...DEFAULT_TRANSITION, ...segment.transition, type } });
+                                }}
+                                className="flex-1 p-1.5 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                            >
+                                {TRANSITION_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                            </select>
+                            {segment.transition && (
+                                <select
+                                    value={segment.transition.curve}
+                                    onChange={(e) => onChange(segment.id, { transition: { ...segment.transition!, curve: e.target.value as FadeCurve } })}
+                                    className="flex-1 p-1.5 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                                    title="Fade curve"
+                                >
+                                    {FADE_CURVES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                                </select>
+                            )}
+                        </div>
+                        {segment.transition && (
+                            <div className="flex items-center gap-2">
+                                <input 
+                                    type="range" 
+                                    min="0.1" 
+                                    max="3" 
+                                    step="0.1" 
+                                    value={segment.transition.duration}
+                                    onChange={(e) => onChange(segment.id, { transition: { ...segment.transition!, duration: parseFloat(e.target.value) } })}
+                                    className="flex-grow h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-primary-600"
+                                />
+                                <span className="bg-slate-200 text-slate-700 px-2 py-0.5 rounded text-xs shrink-0">{segment.transition.duration.toFixed(1)}s</span>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Stereo Position (Only when exporting stereo) */}
+                {exportSettings.channels === 2 && (
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 mb-2 flex items-center justify-between">
+                            <span className="flex items-center gap-1"><Headphones size={14}/> Stereo position</span>
+                            <span className="bg-slate-200 text-slate-700 px-2 py-0.5 rounded text-xs">{formatPan(segment.pan)}</span>
+                        </label>
+                        <input 
+                            type="range" 
+                            min="-1" 
+                            max="1" 
+                            step="0.1" 
+                            value={segment.pan ?? 0}
+                            onChange={(e) => onChange(segment.id, { pan: parseFloat(e.target.value) || undefined })}
+                            onDoubleClick={() => onChange(segment.id, { pan: undefined })}
+                            className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-primary-600"
+                            title="Double-click to centre"
+                        />
+                    </div>
+                )}
+
+                {/* Listening Test Options */}
+                {testMode && (
+                    <div className="space-y-3 border-t border-slate-200 pt-4">
+                        <label className="flex items-center gap-2 text-sm font-bold text-slate-700 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={!!segment.isQuestion}
+                                onChange={(e) => onChange(segment.id, { isQuestion: e.target.checked })}
+                                className="accent-primary-600"
+                            />
+                            <ClipboardCheck size={14}/> This segment is a question
+                        </label>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-xs font-semibold text-slate-500 mb-1">Times played</label>
+                                <select
+                                    value={segment.repeatCount ?? 1}
+                                    onChange={(e) => onChange(segment.id, { repeatCount: parseInt(e.target.value, 10) })}
+                                    className="w-full p-1.5 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                                >
+                                    {[1, 2, 3].map(n => <option key={n} value={n}>{n}×</option>)}
+                                </select>
+                            </div>
+                            {segment.isQuestion && (
+                                <div>
+                                    <label className="block text-xs font-semibold text-slate-500 mb-1">Answer gap (s)</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max="120"
+                                        placeholder="Default"
+                                        value={segment.answerGap ?? ''}
+                                        onChange={(e) => onChange(segment.id, { answerGap: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value)) })}
+                                        className="w-full p-1.5 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                                    />
+                                </div>
+                            )}
+                        </div>
+
+                        {segment.isQuestion && (
+                            <div>
+                                <label className="block text-xs font-semibold text-slate-500 mb-1">Answer (for the answer key)</label>
+                                <input
+                                    type="text"
+                                    value={segment.answer ?? ''}
+                                    onChange={(e) => onChange(segment.id, { answer: e.target.value })}
+                                    placeholder="e.g. B — at the train station"
+                                    className="w-full p-1.5 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                                />
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* Generate Button (Only for Text/OCR) */}
                 {segment.inputType !== InputType.AUDIO && (
                     <button
                         onClick={handleGenerateAudio}
-                        disabled={segment.isGeneratingAudio || !segment.textRaw || !apiKey}
-                        title={!apiKey ? "Enter API Key first" : ""}
+                        disabled={segment.isGeneratingAudio || !!segment.queueStatus || !segment.textRaw || !canGenerate}
+                        title={!canGenerate ? "Enter API Key first" : ""}
                         className="w-full py-2.5 px-4 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-sm transition-all active:scale-95"
                     >
-                        {segment.isGeneratingAudio ? (
+                        {segment.isGeneratingAudio || segment.queueStatus ? (
                             <Loader2 className="animate-spin" size={18} />
                         ) : (
                             <PlayCircle size={18} />
                         )}
-                        {segment.isGeneratingAudio ? 'Generating...' : 'Generate Voice'}
+                        {segment.queueStatus === 'queued' ? 'Queued...' :
+                         segment.queueStatus === 'retrying' ? 'Rate limited, retrying...' :
+                         segment.isGeneratingAudio ? 'Generating...' : 'Generate Voice'}
                     </button>
                 )}
             </div>
@@ -746,7 +1259,14 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
                  )}
                  {audioSrc ? (
                     <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
-                        <p className="text-xs font-semibold text-slate-500 uppercase mb-1">Preview Segment</p>
+                        <div className="flex items-center justify-between mb-1">
+                            <p className="text-xs font-semibold text-slate-500 uppercase">Preview Segment</p>
+                            {segment.audioFromCache && segment.inputType !== InputType.AUDIO && (
+                                <span className="flex items-center gap-1 text-[10px] font-bold uppercase text-emerald-700 bg-emerald-50 border border-emerald-200 px-1.5 py-0.5 rounded" title="Served from the local cache, no API call was made">
+                                    <Database size={10} /> Cached
+                                </span>
+                            )}
+                        </div>
                         
                         {/* 
                            If showing trimmer, we use the trimmer controls. 
@@ -758,7 +1278,8 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
                                 src={audioSrc} 
                                 onPlay={(e) => {
                                     if (segment.inputType !== InputType.AUDIO) {
-                                        e.currentTarget.playbackRate = segment.speed; 
+                                        // Approximation: the merge applies tempo/pitch with a proper time stretch
+                                        e.currentTarget.playbackRate = getSegmentSpeed(segment) * (segment.tempo ?? 1.0); 
                                     }
                                 }}
                                 className="w-full h-8 mb-2"
@@ -771,14 +1292,37 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
                             </div>
                         )}
 
-                        <button
-                            onClick={handleDownloadSingle}
-                            disabled={isProcessingDownload}
-                            className="w-full py-1.5 px-3 border border-slate-300 text-slate-600 rounded-md text-xs hover:bg-white hover:text-primary-600 flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
-                        >
-                            {isProcessingDownload ? <Loader2 size={14} className="animate-spin"/> : <Download size={14} />}
-                            Download Segment
-                        </button>
+                        {isSpeechTrimmed && (
+                            <div className="flex items-center justify-between text-xs text-slate-500 mb-2">
+                                <span>Trimmed to {segment.trimStart!.toFixed(2)}s – {segment.trimEnd!.toFixed(2)}s</span>
+                                <button
+                                    onClick={() => onChange(segment.id, { trimStart: undefined, trimEnd: undefined })}
+                                    className="text-primary-600 hover:underline"
+                                >
+                                    Undo trim
+                                </button>
+                            </div>
+                        )}
+
+                        <div className="flex gap-2">
+                            <button
+                                onClick={handleTrimSilence}
+                                disabled={isTrimmingSilence}
+                                className="flex-1 py-1.5 px-3 border border-slate-300 text-slate-600 rounded-md text-xs hover:bg-white hover:text-primary-600 flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+                                title="Cut leading and trailing silence"
+                            >
+                                {isTrimmingSilence ? <Loader2 size={14} className="animate-spin"/> : <Scissors size={14} />}
+                                Trim Silence
+                            </button>
+                            <button
+                                onClick={handleDownloadSingle}
+                                disabled={isProcessingDownload}
+                                className="flex-1 py-1.5 px-3 border border-slate-300 text-slate-600 rounded-md text-xs hover:bg-white hover:text-primary-600 flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+                            >
+                                {isProcessingDownload ? <Loader2 size={14} className="animate-spin"/> : <Download size={14} />}
+                                Download Segment
+                            </button>
+                        </div>
                     </div>
                  ) : (
                     <div className="text-center text-slate-400 py-4 text-xs italic">
@@ -795,9 +1339,4 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, onChange, onRemove,
   );
 };
 
-// Simple icon for Reset
-const RotateCcw: React.FC<{size?:number}> = ({size=16}) => (
-    <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 12"/><path d="M3 5v7h7"/></svg>
-);
-
 export default SegmentItem;
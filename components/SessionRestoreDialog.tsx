@@ -0,0 +1,111 @@
+import React from 'react';
+import { SessionSummary } from '../types';
+import { History, Trash2, Loader2, HardDrive, X, RotateCcw, Database } from 'lucide-react';
+
+interface SessionRestoreDialogProps {
+  sessions: SessionSummary[];
+  storage: { usage: number; quota: number } | null;
+  speechCache: { count: number; size: number } | null;
+  onClearSpeechCache: () => void;
+  restoringId: string | null;
+  onRestore: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const SessionRestoreDialog: React.FC<SessionRestoreDialogProps> = ({ sessions, storage, speechCache, onClearSpeechCache, restoringId, onRestore, onDelete, onClose }) => {
+  const usagePct = storage && storage.quota ? Math.min(100, (storage.usage / storage.quota) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-[60] flex items-center justify-center p-4 animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-slate-100">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <History size={20} className="text-primary-600" /> Restore previous session?
+            </h2>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1" title="Close">
+                <X size={20} />
+            </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto space-y-2 flex-grow">
+            {sessions.length === 0 && (
+                <p className="text-sm text-slate-500 italic text-center py-6">No saved sessions.</p>
+            )}
+            {sessions.map(session => (
+                <div key={session.id} className="flex items-center gap-3 p-3 border border-slate-200 rounded-lg hover:bg-slate-50">
+                    <div className="flex-grow min-w-0">
+                        <p className="text-sm font-semibold text-slate-800 truncate">{session.title}</p>
+                        <p className="text-xs text-slate-500">
+                            {new Date(session.updatedAt).toLocaleString()} · {session.segmentCount} segment{session.segmentCount === 1 ? '' : 's'} · {formatBytes(session.size)}
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => onRestore(session.id)}
+                        disabled={restoringId !== null}
+                        className="px-3 py-1.5 bg-primary-600 text-white rounded-md text-xs font-bold hover:bg-primary-700 disabled:opacity-50 flex items-center gap-1"
+                    >
+                        {restoringId === session.id ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />}
+                        Restore
+                    </button>
+                    <button
+                        onClick={() => onDelete(session.id)}
+                        disabled={restoringId !== null}
+                        className="text-slate-400 hover:text-red-500 p-1 disabled:opacity-50"
+                        title="Delete session"
+                    >
+                        <Trash2 size={16} />
+                    </button>
+                </div>
+            ))}
+        </div>
+
+        <div className="p-5 border-t border-slate-100 space-y-3">
+            {storage && (
+                <div>
+                    <div className="flex justify-between text-xs text-slate-500 mb-1">
+                        <span className="flex items-center gap-1"><HardDrive size={12} /> Browser storage</span>
+                        <span>{formatBytes(storage.usage)} of {formatBytes(storage.quota)}</span>
+                    </div>
+                    <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                        <div
+                            className={`h-full ${usagePct > 80 ? 'bg-red-500' : 'bg-primary-500'}`}
+                            style={{ width: `${usagePct}%` }}
+                        />
+                    </div>
+                </div>
+            )}
+            {speechCache && (
+                <div className="flex items-center justify-between text-xs text-slate-500">
+                    <span className="flex items-center gap-1">
+                        <Database size={12} /> Speech cache: {speechCache.count} clip{speechCache.count === 1 ? '' : 's'} · {formatBytes(speechCache.size)}
+                    </span>
+                    <button
+                        onClick={onClearSpeechCache}
+                        disabled={speechCache.count === 0}
+                        className="text-red-500 hover:text-red-700 font-medium disabled:opacity-40"
+                    >
+                        Clear cache
+                    </button>
+                </div>
+            )}
+            <button
+                onClick={onClose}
+                className="w-full py-2 border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50"
+            >
+                Start Fresh
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionRestoreDialog;
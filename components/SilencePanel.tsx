@@ -0,0 +1,104 @@
+import React from 'react';
+import { SilenceSettings } from '../types';
+import { Scissors, Loader2 } from 'lucide-react';
+
+interface SilencePanelProps {
+  settings: SilenceSettings;
+  onChange: (updates: Partial<SilenceSettings>) => void;
+  onTightenAll: () => void;
+  isTightening: boolean;
+}
+
+const labelClass = "block text-xs font-semibold text-slate-500 mb-1";
+
+const SilencePanel: React.FC<SilencePanelProps> = ({ settings, onChange, onTightenAll, isTightening }) => {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-primary-100 p-6 mb-8">
+        <div className="flex items-center justify-between flex-wrap gap-2">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <Scissors size={20} className="text-primary-600" /> Silence
+            </h2>
+            <button
+                onClick={onTightenAll}
+                disabled={isTightening}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-primary-700 border border-primary-200 rounded-lg hover:bg-primary-50 transition-colors disabled:opacity-50"
+                title="Trim leading and trailing silence on every segment"
+            >
+                {isTightening ? <Loader2 size={14} className="animate-spin" /> : <Scissors size={14} />}
+                {isTightening ? 'Trimming...' : 'Tighten All'}
+            </button>
+        </div>
+
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+                <label className={labelClass}>Silence below ({settings.threshold} dB)</label>
+                <input
+                    type="range"
+                    min="-70"
+                    max="-20"
+                    step="1"
+                    value={settings.threshold}
+                    onChange={(e) => onChange({ threshold: parseFloat(e.target.value) })}
+                    className="w-full accent-primary-600"
+                />
+            </div>
+            <div>
+                <label className={labelClass}>Shortest pause ({settings.minDuration}s)</label>
+                <input
+                    type="range"
+                    min="0.1"
+                    max="2"
+                    step="0.1"
+                    value={settings.minDuration}
+                    onChange={(e) => onChange({ minDuration: parseFloat(e.target.value) })}
+                    className="w-full accent-primary-600"
+                />
+            </div>
+            <div>
+                <label className={labelClass}>Keep around speech ({settings.padding}s)</label>
+                <input
+                    type="range"
+                    min="0"
+                    max="0.5"
+                    step="0.05"
+                    value={settings.padding}
+                    onChange={(e) => onChange({ padding: parseFloat(e.target.value) })}
+                    className="w-full accent-primary-600"
+                />
+            </div>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={settings.compressPauses}
+                    onChange={(e) => onChange({ compressPauses: e.target.checked })}
+                    className="accent-primary-600"
+                />
+                Shorten long pauses inside segments
+            </label>
+            {settings.compressPauses && (
+                <div className="flex items-center gap-2 flex-grow min-w-[200px] animate-in fade-in">
+                    <span className="text-xs font-semibold text-slate-500 shrink-0">to {settings.maxPause}s</span>
+                    <input
+                        type="range"
+                        min="0.2"
+                        max="2"
+                        step="0.1"
+                        value={settings.maxPause}
+                        onChange={(e) => onChange({ maxPause: parseFloat(e.target.value) })}
+                        className="w-full accent-primary-600"
+                    />
+                </div>
+            )}
+        </div>
+
+        <p className="text-xs text-slate-500 mt-3">
+            Tighten All cuts uneven silence at the start and end of each segment so every delay is the real gap. Shortened pauses apply the next time you click Preview All.
+        </p>
+    </div>
+  );
+};
+
+export default SilencePanel;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { SpeechSettings, SpeechVoice, SpeechProviderId } from '../types';
+import { SPEECH_PROVIDERS } from '../services/speechProvider';
+import { Cpu, RefreshCw, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+
+interface SpeechProviderPanelProps {
+  settings: SpeechSettings;
+  onChange: (updates: Partial<SpeechSettings>) => void;
+  localVoices: SpeechVoice[];
+  localVoicesError: string | null;
+  isLoadingVoices: boolean;
+  onRefreshVoices: () => void;
+}
+
+const inputClass = "w-full p-2 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none";
+
+const SpeechProviderPanel: React.FC<SpeechProviderPanelProps> = ({
+  settings, onChange, localVoices, localVoicesError, isLoadingVoices, onRefreshVoices
+}) => {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-primary-100 p-6 mb-8">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <Cpu size={20} className="text-primary-600" /> Speech Engine
+            </h2>
+            <select
+                value={settings.provider}
+                onChange={(e) => onChange({ provider: e.target.value as SpeechProviderId })}
+                className="p-2 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+            >
+                {SPEECH_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+        </div>
+
+        {settings.provider === 'local' && (
+            <div className="mt-4 space-y-3 animate-in fade-in slide-in-from-top-2">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-500 mb-1">Server URL</label>
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={settings.localUrl}
+                                onChange={(e) => onChange({ localUrl: e.target.value })}
+                                placeholder="http://localhost:5000"
+                                className={inputClass}
+                            />
+                            <button
+                                onClick={onRefreshVoices}
+                                disabled={isLoadingVoices}
+                                className="px-3 border border-slate-300 rounded-md text-slate-600 hover:text-primary-600 hover:bg-slate-50 disabled:opacity-50"
+                                title="Check server and reload voices"
+                            >
+                                {isLoadingVoices ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                            </button>
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-500 mb-1">Default voice</label>
+                        <select
+                            value={settings.localVoice}
+                            onChange={(e) => onChange({ localVoice: e.target.value })}
+                            className={inputClass}
+                        >
+                            <option value="">Server default</option>
+                            {localVoices.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                {localVoicesError ? (
+                    <p className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={12} /> {localVoicesError}</p>
+                ) : localVoices.length > 0 && (
+                    <p className="text-xs text-emerald-700 flex items-center gap-1">
+                        <CheckCircle2 size={12} /> Connected · {localVoices.length} voice{localVoices.length === 1 ? '' : 's'}
+                    </p>
+                )}
+                <p className="text-xs text-slate-500">
+                    Works with a Piper HTTP server (<code>python -m piper.http_server</code>) or any server that accepts
+                    a JSON <code>{'{ text, voice }'}</code> POST and returns a 16-bit WAV. Voice personas apply to Gemini only.
+                </p>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default SpeechProviderPanel;
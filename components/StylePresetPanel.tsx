@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { StylePreset } from '../types';
+import { Drama, Plus, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface StylePresetPanelProps {
+  presets: StylePreset[];
+  onChange: (presets: StylePreset[]) => void;
+}
+
+const inputClass = "w-full p-1.5 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none";
+
+const StylePresetPanel: React.FC<StylePresetPanelProps> = ({ presets, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const updatePreset = (id: string, updates: Partial<StylePreset>) => {
+      onChange(presets.map(p => p.id === id ? { ...p, ...updates } : p));
+  };
+
+  const addPreset = () => {
+      onChange([...presets, { id: uuidv4(), name: '', instruction: '' }]);
+      setIsOpen(true);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-primary-100 p-6 mb-8">
+        <div className="flex items-center justify-between">
+            <button onClick={() => setIsOpen(v => !v)} className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <Drama size={20} className="text-primary-600" /> Delivery Styles
+                <span className="text-xs font-medium text-slate-500">({presets.length} preset{presets.length === 1 ? '' : 's'})</span>
+                {isOpen ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+            </button>
+            <button
+                onClick={addPreset}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-primary-700 border border-primary-200 rounded-lg hover:bg-primary-50 transition-colors"
+            >
+                <Plus size={14} /> Add Style
+            </button>
+        </div>
+
+        {isOpen && (
+            <div className="mt-4 space-y-2 animate-in fade-in slide-in-from-top-2">
+                {presets.length === 0 ? (
+                    <p className="text-xs text-slate-500 italic">
+                        Save directions you use often, e.g. "Calm teacher" → "like a calm, patient teacher", then pick them on any segment.
+                    </p>
+                ) : (
+                    <div className="grid grid-cols-[1fr_2fr_auto] gap-2 items-center">
+                        <span className="text-xs font-semibold text-slate-500">Name</span>
+                        <span className="text-xs font-semibold text-slate-500">Direction (read the text…)</span>
+                        <span />
+                        {presets.map(preset => (
+                            <React.Fragment key={preset.id}>
+                                <input
+                                    type="text"
+                                    value={preset.name}
+                                    onChange={(e) => updatePreset(preset.id, { name: e.target.value })}
+                                    placeholder="Sports commentator"
+                                    className={inputClass}
+                                />
+                                <input
+                                    type="text"
+                                    value={preset.instruction}
+                                    onChange={(e) => updatePreset(preset.id, { instruction: e.target.value })}
+                                    placeholder="fast and excited, like a live sports commentator"
+                                    className={inputClass}
+                                />
+                                <button
+                                    onClick={() => onChange(presets.filter(p => p.id !== preset.id))}
+                                    className="text-slate-400 hover:text-red-500 p-1"
+                                    title="Remove style"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </React.Fragment>
+                        ))}
+                    </div>
+                )}
+                <p className="text-xs text-slate-500 pt-2">
+                    Segments keep the direction text they were given, so editing a preset does not change existing segments.
+                </p>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default StylePresetPanel;
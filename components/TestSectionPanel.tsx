@@ -0,0 +1,117 @@
+import React from 'react';
+import { TestSectionSettings, VoiceName } from '../types';
+import { GEMINI_VOICES, formatVoiceLabel } from '../constants';
+import { ClipboardList, Printer } from 'lucide-react';
+
+interface TestSectionPanelProps {
+  settings: TestSectionSettings;
+  onChange: (updates: Partial<TestSectionSettings>) => void;
+  onPrint: () => void;
+}
+
+const inputClass = "w-full p-2 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none";
+
+const TestSectionPanel: React.FC<TestSectionPanelProps> = ({ settings, onChange, onPrint }) => {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-primary-100 p-6 mb-8">
+        <div className="flex items-center justify-between">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <ClipboardList size={20} className="text-primary-600" /> Listening Test
+            </h2>
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-600 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={settings.enabled}
+                    onChange={(e) => onChange({ enabled: e.target.checked })}
+                    className="accent-primary-600"
+                />
+                Test section mode
+            </label>
+        </div>
+
+        {settings.enabled && (
+            <div className="mt-4 space-y-4 animate-in fade-in slide-in-from-top-2">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-500 mb-1">Section title</label>
+                        <input
+                            type="text"
+                            value={settings.title}
+                            onChange={(e) => onChange({ title: e.target.value })}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-500 mb-1">Announcer voice</label>
+                        <select
+                            value={settings.announcerVoice}
+                            onChange={(e) => onChange({ announcerVoice: e.target.value as VoiceName })}
+                            className={inputClass}
+                        >
+                            {GEMINI_VOICES.map(voice => (
+                                <option key={voice.name} value={voice.name}>{formatVoiceLabel(voice.name)}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                <div>
+                    <label className="block text-xs font-semibold text-slate-500 mb-1">Instructions (read before the first question)</label>
+                    <textarea
+                        value={settings.instructions}
+                        onChange={(e) => onChange({ instructions: e.target.value })}
+                        rows={2}
+                        className={`${inputClass} resize-y`}
+                    />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-500 mb-1">Repeat prompt</label>
+                        <input
+                            type="text"
+                            value={settings.repeatPrompt}
+                            onChange={(e) => onChange({ repeatPrompt: e.target.value })}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-500 mb-1">Closing line</label>
+                        <input
+                            type="text"
+                            value={settings.closingText}
+                            onChange={(e) => onChange({ closingText: e.target.value })}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-500 mb-1">Default answer gap (s)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            max="120"
+                            value={settings.answerGap}
+                            onChange={(e) => onChange({ answerGap: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-3 pt-2 border-t border-slate-100">
+                    <p className="text-xs text-slate-500">
+                        Mark segments as questions below. Preview adds "Question N", repeats and answer gaps automatically.
+                    </p>
+                    <button
+                        onClick={onPrint}
+                        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-primary-700 border border-primary-200 rounded-lg hover:bg-primary-50 transition-colors"
+                    >
+                        <Printer size={16} /> Print Script & Answer Key
+                    </button>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default TestSectionPanel;
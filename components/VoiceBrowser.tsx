@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { VoiceName } from '../types';
+import { GEMINI_VOICES } from '../constants';
+import { generateSpeech } from '../services/geminiService';
+import { base64ToUint8Array, createWavHeader } from '../utils/audioUtils';
+import { Library, X, Play, Square, Loader2, Check, Search } from 'lucide-react';
+
+interface VoiceBrowserProps {
+  apiKey: string;
+  sampleText: string; // Script excerpt each voice reads; empty for a generic greeting
+  currentVoice: VoiceName;
+  onSelect: (voice: VoiceName) => void;
+  onClose: () => void;
+}
+
+type GenderFilter = 'all' | 'Female' | 'Male';
+
+// Auditions stay short so browsing many voices is quick and cheap
+const MAX_SAMPLE_LENGTH = 160;
+
+/**
+ * First sentence (or so) of the script, used as the audition line.
+ */
+const buildSampleText = (text: string, voice: VoiceName): string => {
+    const clean = text.replace(/\s+/g, ' ').trim();
+    if (!clean) return `Hello! My name is ${voice}. Let's practise English together.`;
+
+    const sentence = clean.match(/^.+?[.!?](\s|$)/)?.[0].trim() ?? clean;
+    return sentence.length > MAX_SAMPLE_LENGTH
+        ? `${sentence.slice(0, MAX_SAMPLE_LENGTH).replace(/\s+\S*$/, '')}…`
+        : sentence;
+};
+
+const VoiceBrowser: React.FC<VoiceBrowserProps> = ({ apiKey, sampleText, currentVoice, onSelect, onClose }) => {
+  const [gender, setGender] = useState<GenderFilter>('all');
+  const [character, setCharacter] = useState('all');
+  const [query, setQuery] = useState('');
+  const [loadingVoice, setLoadingVoice] = useState<VoiceName | null>(null);
+  const [playingVoice, setPlayingVoice] = useState<VoiceName | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlRef = useRef<string | null>(null);
+
+  const characters = useMemo(() => Array.from(new Set(GEMINI_VOICES.map(v => v.character))).sort(), []);
+
+  const voices = GEMINI_VOICES.filter(v =>
+      (gender === 'all' || v.gender === gender) &&
+      (character === 'all' || v.character === character) &&
+      v.name.toLowerCase().includes(query.trim().toLowerCase())
+  );
+
+  const stopAudition = () => {
+      audioRef.current?.pause();
+      if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+      urlRef.current = null;
+      setPlayingVoice(null);
+  };
+
+  useEffect(() => stopAudition, []);
+
+  const playAudition = async (voice: VoiceName) => {
+      stopAudition();
+      if (playingVoice === voice) return;
+
+      setLoadingVoice(voice);
+      setError(null);
+      try {
+          // Cached like any other speech, so replaying an audition is free
+          const { audioBase64 } = await generateSpeech(buildSampleText(sampleText, voice), voice, apiKey);
+          const pcm = base64ToUint8Array(audioBase64);
+          const header = createWavHeader(pcm.length);
+          const wav = new Uint8Array(header.length + pcm.length);
+          wav.set(header);
+          wav.set(pcm, header.length);
+
+          urlRef.current = URL.createObjectURL(new Blob([wav], { type: 'audio/wav' }));
+          const audio = new Audio(urlRef.current);
+          audio.onended = () => setPlayingVoice(null);
+          audioRef.current = audio;
+          await audio.play();
+          setPlayingVoice(voice);
+      } catch (err: any) {
+          setError(`Audition failed: ${err.message}`);
+      } finally {
+          setLoadingVoice(null);
+      }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-[60] flex items-center justify-center p-4 animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-slate-100">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <Library size={20} className="text-primary-600" /> Voice Browser
+                <span className="text-xs font-medium text-slate-500">({voices.length} of {GEMINI_VOICES.length})</span>
+            </h2>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1" title="Close">
+                <X size={20} />
+            </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-5 pt-4">
+            <div className="flex rounded-lg border border-slate-200 overflow-hidden text-sm">
+                {(['all', 'Female', 'Male'] as GenderFilter[]).map(g => (
+                    <button
+                        key={g}
+                        onClick={() => setGender(g)}
+                        className={`px-3 py-1.5 ${gender === g ? 'bg-primary-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                    >
+                        {g === 'all' ? 'All' : g}
+                    </button>
+                ))}
+            </div>
+            <select
+                value={character}
+                onChange={(e) => setCharacter(e.target.value)}
+                className="p-1.5 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+            >
+                <option value="all">Any character</option>
+                {characters.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <div className="relative flex-grow min-w-[140px]">
+                <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input
+                    type="text"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search by name"
+                    className="w-full pl-7 p-1.5 border border-slate-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-primary-500 outline-none"
+                />
+            </div>
+        </div>
+
+        <p className="text-xs text-slate-500 px-5 pt-2">
+            {apiKey
+                ? <>Auditions read: <em>"{buildSampleText(sampleText, '…')}"</em></>
+                : 'Add your Gemini API key to hear auditions.'}
+        </p>
+        {error && <p className="text-sm text-red-600 px-5 pt-2">{error}</p>}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2 p-5 overflow-y-auto">
+            {voices.length === 0 && (
+                <p className="text-sm text-slate-500 italic col-span-full">No voices match these filters.</p>
+            )}
+            {voices.map(voice => {
+                const isCurrent = voice.name === currentVoice;
+                return (
+                    <div
+                        key={voice.name}
+                        className={`flex items-center gap-2 p-2 rounded-lg border ${isCurrent ? 'border-primary-400 bg-primary-50' : 'border-slate-200 bg-white'}`}
+                    >
+                        <button
+                            onClick={() => playAudition(voice.name)}
+                            disabled={!apiKey || (loadingVoice !== null && loadingVoice !== voice.name)}
+                            className="p-2 rounded-full bg-slate-100 text-slate-600 hover:bg-primary-100 hover:text-primary-700 disabled:opacity-40 shrink-0"
+                            title={playingVoice === voice.name ? 'Stop' : 'Play audition'}
+                        >
+                            {loadingVoice === voice.name ? <Loader2 size={14} className="animate-spin" />
+                                : playingVoice === voice.name ? <Square size={14} /> : <Play size={14} />}
+                        </button>
+                        <div className="flex-grow min-w-0">
+                            <div className="text-sm font-bold text-slate-800 truncate">{voice.name}</div>
+                            <div className="text-xs text-slate-500">{voice.gender} · {voice.character}</div>
+                        </div>
+                        <button
+                            onClick={() => { stopAudition(); onSelect(voice.name); }}
+                            className={`px-2 py-1 text-xs font-medium rounded-md shrink-0 ${isCurrent ? 'text-primary-700' : 'text-primary-700 border border-primary-200 hover:bg-primary-100'}`}
+                        >
+                            {isCurrent ? <span className="flex items-center gap-1"><Check size={12} /> In use</span> : 'Use'}
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceBrowser;
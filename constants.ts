@@ -1,24 +1,180 @@
-import { VoicePersona } from './types';
-
-// Gemini Voices: Puck, Charon, Kore, Fenrir, Zephyr
-// We create personas by adjusting the playback rate.
-
-export const VOICE_PERSONAS: VoicePersona[] = [
-  // Children (Higher pitch, faster speed)
-  { id: 'child_f_1', name: 'Lucy (Child)', baseVoice: 'Kore', playbackRate: 1.25, gender: 'Female', ageGroup: 'Child' },
-  { id: 'child_m_1', name: 'Timmy (Child)', baseVoice: 'Puck', playbackRate: 1.25, gender: 'Male', ageGroup: 'Child' },
-  
-  // Adults (Normal pitch/speed)
-  { id: 'adult_f_1', name: 'Sarah (Adult)', baseVoice: 'Kore', playbackRate: 1.0, gender: 'Female', ageGroup: 'Adult' },
-  { id: 'adult_m_1', name: 'James (Adult)', baseVoice: 'Puck', playbackRate: 1.0, gender: 'Male', ageGroup: 'Adult' },
-  { id: 'adult_f_2', name: 'Emma (Adult)', baseVoice: 'Zephyr', playbackRate: 1.0, gender: 'Female', ageGroup: 'Adult' },
-  { id: 'adult_m_2', name: 'Michael (Adult)', baseVoice: 'Fenrir', playbackRate: 1.0, gender: 'Male', ageGroup: 'Adult' },
-  { id: 'adult_m_3', name: 'David (Adult)', baseVoice: 'Charon', playbackRate: 1.0, gender: 'Male', ageGroup: 'Adult' },
-
-  // Elderly (Lower pitch, slower speed)
-  { id: 'elderly_f_1', name: 'Grandma Mary', baseVoice: 'Zephyr', playbackRate: 0.85, gender: 'Female', ageGroup: 'Elderly' },
-  { id: 'elderly_m_1', name: 'Grandpa Joe', baseVoice: 'Fenrir', playbackRate: 0.85, gender: 'Male', ageGroup: 'Elderly' },
-  { id: 'elderly_m_2', name: 'Mr. Smith', baseVoice: 'Charon', playbackRate: 0.8, gender: 'Male', ageGroup: 'Elderly' },
-];
-
-export const DEFAULT_SAMPLE_RATE = 24000;
+import { VoicePersona, VoiceName, GeminiVoice, ProjectSettings, StylePreset, PersonaAgeGroup, OutputSampleRate, TransitionType, FadeCurve, SegmentTransition } from './types';
+
+// Prebuilt voices offered by the Gemini TTS model
+export const GEMINI_VOICES: GeminiVoice[] = [
+  { name: 'Zephyr', gender: 'Female', character: 'Bright' },
+  { name: 'Puck', gender: 'Male', character: 'Upbeat' },
+  { name: 'Charon', gender: 'Male', character: 'Informative' },
+  { name: 'Kore', gender: 'Female', character: 'Firm' },
+  { name: 'Fenrir', gender: 'Male', character: 'Excitable' },
+  { name: 'Leda', gender: 'Female', character: 'Youthful' },
+  { name: 'Orus', gender: 'Male', character: 'Firm' },
+  { name: 'Aoede', gender: 'Female', character: 'Breezy' },
+  { name: 'Callirrhoe', gender: 'Female', character: 'Easy-going' },
+  { name: 'Autonoe', gender: 'Female', character: 'Bright' },
+  { name: 'Enceladus', gender: 'Male', character: 'Breathy' },
+  { name: 'Iapetus', gender: 'Male', character: 'Clear' },
+  { name: 'Umbriel', gender: 'Male', character: 'Easy-going' },
+  { name: 'Algieba', gender: 'Male', character: 'Smooth' },
+  { name: 'Despina', gender: 'Female', character: 'Smooth' },
+  { name: 'Erinome', gender: 'Female', character: 'Clear' },
+  { name: 'Algenib', gender: 'Male', character: 'Gravelly' },
+  { name: 'Rasalgethi', gender: 'Male', character: 'Informative' },
+  { name: 'Laomedeia', gender: 'Female', character: 'Upbeat' },
+  { name: 'Achernar', gender: 'Female', character: 'Soft' },
+  { name: 'Alnilam', gender: 'Male', character: 'Firm' },
+  { name: 'Schedar', gender: 'Male', character: 'Even' },
+  { name: 'Gacrux', gender: 'Female', character: 'Mature' },
+  { name: 'Pulcherrima', gender: 'Female', character: 'Forward' },
+  { name: 'Achird', gender: 'Male', character: 'Friendly' },
+  { name: 'Zubenelgenubi', gender: 'Male', character: 'Casual' },
+  { name: 'Vindemiatrix', gender: 'Female', character: 'Gentle' },
+  { name: 'Sadachbia', gender: 'Male', character: 'Lively' },
+  { name: 'Sadaltager', gender: 'Male', character: 'Knowledgeable' },
+  { name: 'Sulafat', gender: 'Female', character: 'Warm' },
+];
+
+export const DEFAULT_VOICE: VoiceName = 'Puck';
+
+export const findGeminiVoice = (name: VoiceName): GeminiVoice | undefined => {
+    return GEMINI_VOICES.find(v => v.name === name);
+};
+
+// "Kore (Female, Firm)" for voice pickers
+export const formatVoiceLabel = (name: VoiceName): string => {
+    const voice = findGeminiVoice(name);
+    return voice ? `${voice.name} (${voice.gender}, ${voice.character})` : name;
+};
+
+// A persona is a base voice shaped by speed, semitone pitch and an optional style prompt.
+
+export const PERSONA_AGE_GROUPS: { id: PersonaAgeGroup; label: string }[] = [
+  { id: 'Child', label: 'Children' },
+  { id: 'Teen', label: 'Teens' },
+  { id: 'Adult', label: 'Adults' },
+  { id: 'Elderly', label: 'Elders' },
+];
+
+// Built-in personas; users add their own in the persona library
+export const BUILT_IN_PERSONAS: VoicePersona[] = [
+  { id: 'boy_1', name: 'Little Boy', baseVoice: 'Puck', speed: 1.2, gender: 'Male', ageGroup: 'Child', builtIn: true },
+  { id: 'girl_1', name: 'Little Girl', baseVoice: 'Kore', speed: 1.25, gender: 'Female', ageGroup: 'Child', builtIn: true },
+  { id: 'boy_teen', name: 'Teen Boy', baseVoice: 'Fenrir', speed: 1.1, gender: 'Male', ageGroup: 'Teen', builtIn: true },
+  { id: 'girl_teen', name: 'Teen Girl', baseVoice: 'Zephyr', speed: 1.15, gender: 'Female', ageGroup: 'Teen', builtIn: true },
+  { id: 'man_1', name: 'Man (Neutral)', baseVoice: 'Puck', speed: 1.0, gender: 'Male', ageGroup: 'Adult', builtIn: true },
+  { id: 'man_2', name: 'Man (Deep)', baseVoice: 'Charon', speed: 1.0, gender: 'Male', ageGroup: 'Adult', builtIn: true },
+  { id: 'man_3', name: 'Man (Bass)', baseVoice: 'Fenrir', speed: 1.0, gender: 'Male', ageGroup: 'Adult', builtIn: true },
+  { id: 'woman_1', name: 'Woman (Calm)', baseVoice: 'Kore', speed: 1.0, gender: 'Female', ageGroup: 'Adult', builtIn: true },
+  { id: 'woman_2', name: 'Woman (Bright)', baseVoice: 'Zephyr', speed: 1.0, gender: 'Female', ageGroup: 'Adult', builtIn: true },
+  { id: 'old_man_1', name: 'Old Man (Wise)', baseVoice: 'Charon', speed: 0.9, gender: 'Male', ageGroup: 'Elderly', builtIn: true },
+  { id: 'old_man_2', name: 'Grandpa (Slow)', baseVoice: 'Fenrir', speed: 0.85, gender: 'Male', ageGroup: 'Elderly', builtIn: true },
+  { id: 'old_woman_1', name: 'Grandma', baseVoice: 'Kore', speed: 0.9, gender: 'Female', ageGroup: 'Elderly', builtIn: true },
+  { id: 'old_woman_2', name: 'Old Woman (Slow)', baseVoice: 'Zephyr', speed: 0.85, gender: 'Female', ageGroup: 'Elderly', builtIn: true },
+];
+
+export const DEFAULT_PERSONA_ID = 'man_1';
+
+export const DEFAULT_SAMPLE_RATE = 24000; // TTS audio is generated and cached at this rate
+
+export const OUTPUT_SAMPLE_RATES: { rate: OutputSampleRate; label: string }[] = [
+  { rate: 24000, label: '24 kHz' },
+  { rate: 44100, label: '44.1 kHz' },
+  { rate: 48000, label: '48 kHz' },
+];
+
+export const TRANSITION_TYPES: { id: TransitionType; label: string }[] = [
+  { id: 'cut', label: 'Cut' },
+  { id: 'crossfade', label: 'Crossfade' },
+  { id: 'fade', label: 'Fade out & in' },
+];
+
+export const FADE_CURVES: { id: FadeCurve; label: string }[] = [
+  { id: 'equal-power', label: 'Equal power (smooth)' },
+  { id: 's-curve', label: 'S-curve' },
+  { id: 'linear', label: 'Linear' },
+  { id: 'exponential', label: 'Exponential (natural fade)' },
+];
+
+export const DEFAULT_TRANSITION: SegmentTransition = { type: 'crossfade', duration: 0.5, curve: 'equal-power' };
+
+export const LOUDNESS_TARGETS: { lufs: number; label: string }[] = [
+  { lufs: -23, label: '-23 LUFS (EBU broadcast)' },
+  { lufs: -19, label: '-19 LUFS (quiet, lots of headroom)' },
+  { lufs: -16, label: '-16 LUFS (podcasts, classroom speakers)' },
+  { lufs: -14, label: '-14 LUFS (streaming, phones)' },
+];
+
+export const TRUE_PEAK_CEILINGS = [-2, -1.5, -1, -0.5];
+
+// Tesseract language codes; Gemini is told the language by name
+export const OCR_LANGUAGES = [
+  { code: 'eng', label: 'English' },
+  { code: 'vie', label: 'Vietnamese' },
+  { code: 'eng+vie', label: 'English + Vietnamese' },
+  { code: 'fra', label: 'French' },
+  { code: 'deu', label: 'German' },
+  { code: 'spa', label: 'Spanish' },
+  { code: 'chi_sim', label: 'Chinese (Simplified)' },
+  { code: 'jpn', label: 'Japanese' },
+  { code: 'kor', label: 'Korean' },
+];
+
+export const getOcrLanguageName = (code: string): string => {
+    return OCR_LANGUAGES.find(l => l.code === code)?.label.replace(' + ', ' and ') ?? 'English';
+};
+
+export const DEFAULT_STYLE_PRESETS: StylePreset[] = [
+  { id: 'cheerful', name: 'Cheerful', instruction: 'cheerfully, with a warm smile' },
+  { id: 'calm-teacher', name: 'Calm teacher', instruction: 'like a calm, patient teacher' },
+  { id: 'beginner', name: 'Slow for beginners', instruction: 'slowly and clearly for beginner learners, pronouncing every word' },
+  { id: 'storyteller', name: 'Storyteller', instruction: 'like an expressive storyteller reading to children' },
+  { id: 'whisper', name: 'Whispering', instruction: 'in a soft whisper' },
+  { id: 'british', name: 'British accent', instruction: 'with a standard British English accent' },
+];
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  testSection: {
+    enabled: false,
+    title: 'Listening Test',
+    instructions: 'You will hear each recording twice. Answer the questions while you listen.',
+    announcerVoice: 'Kore',
+    repeatPrompt: 'Now listen again.',
+    closingText: 'That is the end of the listening section.',
+    answerGap: 10
+  },
+  speech: {
+    provider: 'gemini',
+    localUrl: 'http://localhost:5000',
+    localVoice: ''
+  },
+  ocr: {
+    provider: 'gemini',
+    language: 'eng'
+  },
+  lexicon: [],
+  stylePresets: DEFAULT_STYLE_PRESETS,
+  musicBed: {
+    enabled: true,
+    volume: 0.5,
+    duckLevel: 0.25,
+    loop: true,
+    fadeIn: 2,
+    fadeOut: 3
+  },
+  output: {
+    sampleRate: 48000,
+    bitDepth: 16
+  },
+  loudness: {
+    enabled: false, // Opt-in: levelling changes how existing audio sounds
+    targetLufs: -16,
+    truePeakCeiling: -1
+  },
+  silence: {
+    threshold: -45,
+    minDuration: 0.3,
+    padding: 0.1,
+    compressPauses: false,
+    maxPause: 0.7
+  }
+};
@@ -0,0 +1,95 @@
+import { ExportFormat, ExportSettings } from '../types';
+import { bufferToWav } from '../utils/audioUtils';
+import type { EncodeRequest, EncodeResponse } from '../workers/encoderWorker';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string }[] = [
+    { id: 'wav', label: 'WAV (Lossless)', extension: 'wav' },
+    { id: 'mp3', label: 'MP3', extension: 'mp3' },
+    { id: 'opus', label: 'Ogg Opus', extension: 'ogg' },
+];
+
+export const BITRATE_OPTIONS: Record<Exclude<ExportFormat, 'wav'>, number[]> = {
+    mp3: [64, 96, 128, 192],
+    opus: [24, 32, 48, 64],
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = { format: 'wav', bitrate: 64, channels: 1 };
+
+export const getExportExtension = (format: ExportFormat): string => {
+    return EXPORT_FORMATS.find(f => f.id === format)?.extension || 'wav';
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (blob: Blob) => void; reject: (err: Error) => void }>();
+
+const getWorker = (): Worker => {
+    if (worker) return worker;
+
+    worker = new Worker(new URL('../workers/encoderWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<EncodeResponse>) => {
+        const request = pending.get(e.data.id);
+        if (!request) return;
+        pending.delete(e.data.id);
+
+        if ('error' in e.data) {
+            request.reject(new Error(e.data.error));
+        } else {
+            request.resolve(new Blob([e.data.data], { type: e.data.mimeType }));
+        }
+    };
+    worker.onerror = (e) => {
+        // A crashed worker fails every in-flight request; a fresh one is created on next use
+        pending.forEach(r => r.reject(new Error(e.message || 'Encoder worker crashed')));
+        pending.clear();
+        worker?.terminate();
+        worker = null;
+    };
+    return worker;
+};
+
+/**
+ * Why Opus export can't run in this browser at the given output rate, or null if it can.
+ * Opus is encoded with WebCodecs, which some browsers lack or limit to certain rates.
+ */
+export const getOpusUnsupportedReason = async (sampleRate: number, channels: ExportSettings['channels']): Promise<string | null> => {
+    if (typeof AudioEncoder === 'undefined') {
+        return "Not supported in this browser";
+    }
+    try {
+        const support = await AudioEncoder.isConfigSupported({ codec: 'opus', sampleRate, numberOfChannels: channels });
+        return support.supported ? null : `Not supported at ${sampleRate / 1000} kHz in this browser`;
+    } catch {
+        return "Not supported in this browser";
+    }
+};
+
+/**
+ * Encodes an AudioBuffer to the selected export format.
+ * WAV is written on the main thread (at the given bit depth); MP3 and Opus are encoded in a Web Worker.
+ */
+export const encodeAudioBuffer = (buffer: AudioBuffer, settings: ExportSettings, bitDepth: 16 | 24 = 16): Promise<Blob> => {
+    if (settings.format === 'wav') {
+        return Promise.resolve(bufferToWav(buffer, bitDepth));
+    }
+
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        // Copy, so the transfer does not detach the AudioBuffer's own storage
+        channels.push(buffer.getChannelData(c).slice());
+    }
+
+    return new Promise((resolve, reject) => {
+        const id = nextRequestId++;
+        pending.set(id, { resolve, reject });
+
+        const request: EncodeRequest = {
+            id,
+            format: settings.format as EncodeRequest['format'],
+            channels,
+            sampleRate: buffer.sampleRate,
+            bitrate: settings.bitrate
+        };
+        getWorker().postMessage(request, channels.map(c => c.buffer));
+    });
+};
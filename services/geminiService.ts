@@ -1,5 +1,18 @@
 import { GoogleGenAI, Modality } from "@google/genai";
-import { VoiceName } from '../types';
+import { VoiceName, DialogueLine, DialogueSpeaker } from '../types';
+import { changePcmSpeed, changePcmPitch, concatPcmChunks } from '../utils/audioUtils';
+import { withSpeechCache, SpeechResult } from './ttsCacheService';
+import type { SpeechProvider } from './speechProvider';
+import type { OcrProvider } from './ocrProvider';
+import { getOcrLanguageName, GEMINI_VOICES, formatVoiceLabel } from '../constants';
+
+export const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+
+// Gemini multi-speaker TTS supports exactly this many speakers per request
+const MAX_MULTI_SPEAKERS = 2;
+
+// Silence between lines when a dialogue is generated line by line
+const DIALOGUE_LINE_GAP = 0.4;
 
 const getClient = (apiKey?: string) => {
     // Prioritize user-provided key, fallback to env var
@@ -13,7 +26,8 @@ const getClient = (apiKey?: string) => {
 export const extractTextFromMedia = async (
   base64Data: string,
   mimeType: string,
-  apiKey?: string
+  apiKey?: string,
+  languageName: string = 'English'
 ): Promise<string> => {
   const ai = getClient(apiKey);
   
@@ -29,7 +43,7 @@ export const extractTextFromMedia = async (
           }
         },
         {
-            text: "Extract all the English text from this document or image accurately. Do not add any conversational filler. Just return the text."
+            text: `Extract all the ${languageName} text from this document or image accurately. Do not add any conversational filler. Just return the text.`
         }
       ]
     }
@@ -38,30 +52,142 @@ export const extractTextFromMedia = async (
   return response.text || "";
 };
 
+export const geminiOcrProvider: OcrProvider = {
+    id: 'gemini',
+    label: 'Gemini (cloud)',
+    requiresApiKey: true,
+    isLocal: false,
+    acceptsMimeType: () => true,
+    recognize: async (base64Data, mimeType, { apiKey, language }) => ({
+        text: await extractTextFromMedia(base64Data, mimeType, apiKey, getOcrLanguageName(language))
+    })
+};
+
+/**
+ * Generates speech for the text, reusing cached audio for an identical request.
+ */
 export const generateSpeech = async (
     text: string, 
     voice: VoiceName,
-    apiKey?: string
-): Promise<string> => {
-    const ai = getClient(apiKey);
-
-    // Use TTS preview model
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-              voiceConfig: {
-                prebuiltVoiceConfig: { voiceName: voice },
+    apiKey?: string,
+    style?: string
+): Promise<SpeechResult> => {
+    const direction = style?.trim();
+    return withSpeechCache({ text, voice, model: TTS_MODEL, style: direction }, async () => {
+        const ai = getClient(apiKey);
+
+        // Use TTS preview model; a delivery style is given as a spoken-direction prefix
+        const response = await ai.models.generateContent({
+            model: TTS_MODEL,
+            contents: [{ parts: [{ text: direction ? `Say ${direction}:\n${text}` : text }] }],
+            config: {
+              responseModalities: [Modality.AUDIO],
+              speechConfig: {
+                  voiceConfig: {
+                    prebuiltVoiceConfig: { voiceName: voice },
+                  },
               },
-          },
-        },
-      });
+            },
+          });
+
+        const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!audioData) {
+            throw new Error("No audio data generated");
+        }
+        return audioData;
+    });
+}
 
-    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!audioData) {
-        throw new Error("No audio data generated");
+/**
+ * Generates a whole conversation as a single PCM clip.
+ * Two plain speakers (normal speed and pitch, no own style) use one multi-speaker request;
+ * otherwise each line is generated with its speaker's voice and style, speed- and
+ * pitch-adjusted and stitched together.
+ */
+export const generateDialogueSpeech = async (
+    lines: DialogueLine[],
+    speakers: Record<string, DialogueSpeaker>,
+    apiKey?: string,
+    style?: string
+): Promise<SpeechResult> => {
+    const names = Array.from(new Set(lines.map(l => l.speaker)));
+    const missing = names.find(name => !speakers[name]);
+    if (missing) {
+        throw new Error(`No voice assigned to speaker "${missing}".`);
     }
-    return audioData;
-}
\ No newline at end of file
+
+    const isUnshaped = (speaker: DialogueSpeaker) => speaker.speed === 1.0 && !speaker.pitch;
+
+    if (names.length === 1 && isUnshaped(speakers[names[0]])) {
+        const speaker = speakers[names[0]];
+        return generateSpeech(lines.map(l => l.text).join('\n'), speaker.voice, apiKey, speaker.style || style);
+    }
+
+    if (names.length === MAX_MULTI_SPEAKERS && names.every(name => isUnshaped(speakers[name]) && !speakers[name].style)) {
+        const transcript = lines.map(l => `${l.speaker}: ${l.text}`).join('\n');
+        const voiceMap = names.map(name => `${name}=${speakers[name].voice}`).join(',');
+        const direction = style?.trim();
+        const prompt = `TTS the following conversation between ${names.join(' and ')}${direction ? `, spoken ${direction}` : ''}:\n${transcript}`;
+
+        return withSpeechCache({ text: transcript, voice: voiceMap, model: TTS_MODEL, style: direction }, async () => {
+            const ai = getClient(apiKey);
+            const response = await ai.models.generateContent({
+                model: TTS_MODEL,
+                contents: [{ parts: [{ text: prompt }] }],
+                config: {
+                  responseModalities: [Modality.AUDIO],
+                  speechConfig: {
+                      multiSpeakerVoiceConfig: {
+                        speakerVoiceConfigs: names.map(name => ({
+                            speaker: name,
+                            voiceConfig: { prebuiltVoiceConfig: { voiceName: speakers[name].voice } }
+                        })),
+                      },
+                  },
+                },
+              });
+
+            const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!audioData) {
+                throw new Error("No audio data generated");
+            }
+            return audioData;
+        });
+    }
+
+    // Fallback: per-line generation stitched into one clip (cached per line)
+    return stitchDialogueLines(lines, speakers, line => {
+        const persona = speakers[line.speaker];
+        return generateSpeech(line.text, persona.voice, apiKey, persona.style || style);
+    });
+};
+
+/**
+ * Generates a dialogue line by line, applies each speaker's pitch and speed, and joins
+ * the lines with a short gap. Used by every engine when lines can't share one request.
+ */
+export const stitchDialogueLines = async (
+    lines: DialogueLine[],
+    speakers: Record<string, DialogueSpeaker>,
+    generateLine: (line: DialogueLine) => Promise<SpeechResult>
+): Promise<SpeechResult> => {
+    const chunks: string[] = [];
+    let allCached = true;
+    for (const line of lines) {
+        const speaker = speakers[line.speaker] as DialogueSpeaker | undefined;
+        const result = await generateLine(line);
+        allCached = allCached && result.fromCache;
+        chunks.push(changePcmSpeed(changePcmPitch(result.audioBase64, speaker?.pitch), speaker?.speed ?? 1.0));
+    }
+    return { audioBase64: concatPcmChunks(chunks, DIALOGUE_LINE_GAP), fromCache: allCached };
+};
+
+export const geminiSpeechProvider: SpeechProvider = {
+    id: 'gemini',
+    label: 'Gemini (cloud)',
+    requiresApiKey: true,
+    emphasisMarkup: true,
+    supportsStyle: true,
+    listVoices: async () => GEMINI_VOICES.map(voice => ({ id: voice.name, label: formatVoiceLabel(voice.name) })),
+    generate: (text, voice, { apiKey }, style) => generateSpeech(text, voice as VoiceName, apiKey, style)
+};
@@ -0,0 +1,144 @@
+import { Segment, InputType } from '../types';
+import { generateDialogueSpeech, stitchDialogueLines } from './geminiService';
+import { SpeechResult } from './ttsCacheService';
+import { SpeechContext, resolveSegmentSpeech, canUseProvider, speakMarkedUpText, renderDialogueLine } from './speechProvider';
+import { parseDialogue } from '../utils/dialogueUtils';
+
+export const DEFAULT_CONCURRENCY = 2;
+export const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 30000;
+
+/**
+ * Returns why a segment cannot be sent to TTS, or null if it can.
+ */
+export const getGenerationError = (segment: Segment, context: SpeechContext): string | null => {
+    if (!canUseProvider(resolveSegmentSpeech(segment, context.settings).provider, context.apiKey)) {
+        return "Please enter your API Key at the top of the page first.";
+    }
+    if (!segment.textRaw.trim()) {
+        return "Please enter some text first.";
+    }
+    if (segment.inputType === InputType.DIALOGUE && parseDialogue(segment.textRaw).length === 0) {
+        return "Label each line with a speaker, e.g. \"A: Hello!\"";
+    }
+    return null;
+};
+
+/**
+ * True for text segments that have no generated audio yet.
+ */
+export const isSegmentPending = (segment: Segment): boolean => {
+    return segment.inputType !== InputType.AUDIO && !segment.audioBase64 && !!segment.textRaw.trim();
+};
+
+/**
+ * Generates the PCM for one segment on its speech engine.
+ * Gemini dialogues use the speaker personas; other engines read every line with the
+ * segment's voice, keeping each speaker's speed, pitch and style.
+ */
+export const generateSegmentAudio = async (segment: Segment, context: SpeechContext): Promise<SpeechResult> => {
+    const { provider, voice } = resolveSegmentSpeech(segment, context.settings);
+
+    if (segment.inputType !== InputType.DIALOGUE) {
+        return speakMarkedUpText(provider, segment.textRaw, voice, context, segment.style);
+    }
+
+    const lines = parseDialogue(segment.textRaw)
+        .map(line => ({ ...line, text: renderDialogueLine(line.text, provider, context) }))
+        .filter(line => line.text.trim());
+    if (provider.id === 'gemini') {
+        return generateDialogueSpeech(lines, segment.speakers || {}, context.apiKey, segment.style);
+    }
+
+    const speakers = segment.speakers || {};
+    return stitchDialogueLines(lines, speakers, line => (
+        provider.generate(line.text, voice, context, speakers[line.speaker]?.style || segment.style)
+    ));
+};
+
+const isRateLimitError = (err: any): boolean => {
+    const status = err?.status ?? err?.code;
+    if (status === 429 || status === 503) return true;
+    return /\b(429|503)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit|overloaded/i.test(err?.message || '');
+};
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+    }
+    signal.addEventListener('abort', done);
+});
+
+export interface GenerationQueueCallbacks {
+  onStart: (segmentId: string) => void;
+  onRetry: (segmentId: string, attempt: number, delayMs: number) => void;
+  onSuccess: (segmentId: string, result: SpeechResult) => void;
+  onError: (segmentId: string, message: string) => void;
+}
+
+export interface GenerationQueueResult {
+  succeeded: string[];
+  failed: { segmentId: string; message: string }[];
+  cancelled: string[]; // Never started because the queue was aborted
+}
+
+/**
+ * Generates segments with at most `concurrency` requests in flight.
+ * Rate-limit errors are retried with exponential backoff; aborting stops new requests
+ * (requests already sent still finish and report their result).
+ */
+export const runGenerationQueue = async (
+    segments: Segment[],
+    context: SpeechContext,
+    concurrency: number,
+    signal: AbortSignal,
+    callbacks: GenerationQueueCallbacks
+): Promise<GenerationQueueResult> => {
+    const result: GenerationQueueResult = { succeeded: [], failed: [], cancelled: [] };
+    let next = 0;
+
+    const runJob = async (segment: Segment) => {
+        callbacks.onStart(segment.id);
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const speech = await generateSegmentAudio(segment, context);
+                callbacks.onSuccess(segment.id, speech);
+                result.succeeded.push(segment.id);
+                return;
+            } catch (err: any) {
+                if (!isRateLimitError(err) || attempt >= MAX_RETRIES || signal.aborted) {
+                    const message = err?.message || 'Unknown error';
+                    callbacks.onError(segment.id, message);
+                    result.failed.push({ segmentId: segment.id, message });
+                    return;
+                }
+                // 2s, 4s, 8s... with jitter so parallel workers don't retry in lockstep
+                const delayMs = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+                callbacks.onRetry(segment.id, attempt + 1, delayMs);
+                await wait(delayMs, signal);
+                if (signal.aborted) {
+                    result.cancelled.push(segment.id);
+                    return;
+                }
+            }
+        }
+    };
+
+    const worker = async () => {
+        while (next < segments.length && !signal.aborted) {
+            await runJob(segments[next++]);
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, segments.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    result.cancelled.push(...segments.slice(next).map(s => s.id));
+    return result;
+};
@@ -0,0 +1,73 @@
+import { SpeechVoice } from '../types';
+import type { SpeechProvider } from './speechProvider';
+import { withSpeechCache } from './ttsCacheService';
+import { uint8ArrayToBase64, resamplePcm, wavToMonoPcm } from '../utils/audioUtils';
+import { DEFAULT_SAMPLE_RATE } from '../constants';
+
+const trimUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+const unreachable = (url: string) => new Error(
+    `Could not reach the local TTS server at ${url}. Check that it is running and allows requests from this page (CORS).`
+);
+
+/**
+ * Reads the voice list from a Piper-compatible server (GET /voices).
+ * Servers without that endpoint only offer their default voice.
+ */
+const listLocalVoices = async (baseUrl: string): Promise<SpeechVoice[]> => {
+    const url = trimUrl(baseUrl);
+    let response: Response;
+    try {
+        response = await fetch(`${url}/voices`);
+    } catch {
+        throw unreachable(url);
+    }
+    if (!response.ok) {
+        return [];
+    }
+
+    const data = await response.json();
+    const ids: string[] = Array.isArray(data)
+        ? data.map((v: any) => typeof v === 'string' ? v : (v?.id ?? v?.name)).filter(Boolean)
+        : Object.keys(data ?? {});
+    return ids.sort().map(id => ({ id, label: id }));
+};
+
+/**
+ * Synthesizes text on a Piper-compatible server (POST / with JSON { text, voice }, WAV response)
+ * and converts the result to the app's PCM format.
+ */
+const generateLocalSpeech = async (text: string, voice: string, baseUrl: string): Promise<string> => {
+    const url = trimUrl(baseUrl);
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(voice ? { text, voice } : { text })
+        });
+    } catch {
+        throw unreachable(url);
+    }
+    if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Local TTS server error ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+
+    const { sampleRate, pcm } = wavToMonoPcm(new Uint8Array(await response.arrayBuffer()));
+    const base64 = uint8ArrayToBase64(pcm);
+    return resamplePcm(base64, sampleRate, DEFAULT_SAMPLE_RATE);
+};
+
+export const localSpeechProvider: SpeechProvider = {
+    id: 'local',
+    label: 'Local server (Piper)',
+    requiresApiKey: false,
+    emphasisMarkup: false,
+    supportsStyle: false,
+    listVoices: ({ settings }) => listLocalVoices(settings.localUrl),
+    generate: (text, voice, { settings }) => withSpeechCache(
+        { text, voice: voice || 'default', model: `piper@${trimUrl(settings.localUrl)}` },
+        () => generateLocalSpeech(text, voice, settings.localUrl)
+    )
+};
@@ -0,0 +1,51 @@
+import { OcrProviderId, OcrSettings } from '../types';
+import { geminiOcrProvider } from './geminiService';
+import { tesseractOcrProvider } from './tesseractOcrService';
+
+export interface OcrResult {
+  text: string;
+  confidence?: number; // 0-100
+}
+
+export interface OcrContext {
+  apiKey: string;
+  language: string;
+}
+
+/**
+ * A text recognition engine for scanned pages and photos.
+ * Local engines never send the document off the device.
+ */
+export interface OcrProvider {
+  id: OcrProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  isLocal: boolean;
+  acceptsMimeType: (mimeType: string) => boolean;
+  recognize: (base64Data: string, mimeType: string, context: OcrContext) => Promise<OcrResult>;
+}
+
+export const OCR_PROVIDERS: OcrProvider[] = [geminiOcrProvider, tesseractOcrProvider];
+
+export const getOcrProvider = (id: OcrProviderId): OcrProvider => {
+    return OCR_PROVIDERS.find(p => p.id === id) ?? geminiOcrProvider;
+};
+
+/**
+ * Runs OCR with the project's engine, checking the key and file type first.
+ */
+export const recognizeDocument = async (
+    base64Data: string,
+    mimeType: string,
+    settings: OcrSettings,
+    apiKey: string
+): Promise<OcrResult> => {
+    const provider = getOcrProvider(settings.provider);
+    if (provider.requiresApiKey && !apiKey) {
+        throw new Error("Please enter your API Key at the top of the page first, or switch to local OCR.");
+    }
+    if (!provider.acceptsMimeType(mimeType)) {
+        throw new Error(`${provider.label} can only read images (PNG, JPG, WEBP).`);
+    }
+    return provider.recognize(base64Data, mimeType, { apiKey, language: settings.language });
+};
@@ -0,0 +1,84 @@
+import { v4 as uuidv4 } from 'uuid';
+import { VoicePersona, PersonaGender, PersonaAgeGroup } from '../types';
+import { BUILT_IN_PERSONAS, PERSONA_AGE_GROUPS, findGeminiVoice } from '../constants';
+
+const STORAGE_KEY = 'custom_voice_personas';
+
+export const PERSONA_FILE_FORMAT = 'english-reader-personas';
+
+const GENDERS: PersonaGender[] = ['Female', 'Male', 'Neutral'];
+
+/**
+ * Checks one persona from storage or an imported file; returns null if it is unusable.
+ */
+const sanitizePersona = (raw: any): VoicePersona | null => {
+    if (!raw || typeof raw.name !== 'string' || !raw.name.trim()) return null;
+    if (!findGeminiVoice(raw.baseVoice)) return null;
+
+    const speed = Number(raw.speed);
+    const pitch = Number(raw.pitch ?? 0);
+    return {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : uuidv4(),
+        name: raw.name.trim(),
+        baseVoice: raw.baseVoice,
+        speed: Number.isFinite(speed) ? Math.min(2, Math.max(0.5, speed)) : 1.0,
+        pitch: Number.isFinite(pitch) && pitch !== 0 ? Math.min(12, Math.max(-12, Math.round(pitch))) : undefined,
+        style: typeof raw.style === 'string' && raw.style.trim() ? raw.style.trim() : undefined,
+        gender: GENDERS.includes(raw.gender) ? raw.gender : 'Neutral',
+        ageGroup: PERSONA_AGE_GROUPS.some(g => g.id === raw.ageGroup) ? raw.ageGroup as PersonaAgeGroup : 'Adult'
+    };
+};
+
+/**
+ * The user's own personas saved in this browser.
+ */
+export const loadCustomPersonas = (): VoicePersona[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        return Array.isArray(stored) ? stored.map(sanitizePersona).filter((p): p is VoicePersona => !!p) : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveCustomPersonas = (personas: VoicePersona[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(personas));
+};
+
+export const exportPersonasJson = (personas: VoicePersona[]): string => {
+    const custom = personas.filter(p => !p.builtIn).map(({ builtIn, ...persona }) => persona);
+    return JSON.stringify({ format: PERSONA_FILE_FORMAT, version: 1, personas: custom }, null, 2);
+};
+
+/**
+ * Reads a persona file (or a bare array of personas) and merges it into the custom list.
+ * Personas with a known id are replaced; ids that clash with built-ins get a fresh id.
+ */
+export const importPersonasJson = (json: string, existing: VoicePersona[]): VoicePersona[] => {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+
+    const list = Array.isArray(data) ? data : data?.personas;
+    if (!Array.isArray(list)) {
+        throw new Error("No personas found in the file.");
+    }
+
+    const imported = list.map(sanitizePersona).filter((p): p is VoicePersona => !!p);
+    if (imported.length === 0) {
+        throw new Error("No valid personas found in the file.");
+    }
+
+    const merged = [...existing];
+    for (const persona of imported) {
+        if (BUILT_IN_PERSONAS.some(p => p.id === persona.id)) {
+            persona.id = uuidv4();
+        }
+        const index = merged.findIndex(p => p.id === persona.id);
+        if (index >= 0) merged[index] = persona; else merged.push(persona);
+    }
+    return merged;
+};
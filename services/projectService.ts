@@ -0,0 +1,254 @@
+import JSZip from 'jszip';
+import { Segment, InputType, ProjectManifest, ProjectSegmentRecord, ProjectSettings, ProjectAssetRef } from '../types';
+import { DEFAULT_PROJECT_SETTINGS, DEFAULT_STYLE_PRESETS, DEFAULT_VOICE } from '../constants';
+
+export const PROJECT_FORMAT = 'english-reader-project';
+export const PROJECT_VERSION = 12;
+export const PROJECT_FILE_EXTENSION = '.erproj';
+
+const MANIFEST_PATH = 'project.json';
+const MUSIC_PATH = 'music/bed';
+
+// Marker stored in audioBase64 for segments backed by an uploaded file
+const UPLOADED_AUDIO_MARKER = 'FILE';
+
+/**
+ * Schema migrations, keyed by the version they upgrade FROM.
+ * Each step receives the raw manifest of version N and returns version N + 1.
+ * When a new Segment field is added, bump PROJECT_VERSION and register a step here
+ * that fills in a sensible default for older files.
+ */
+const MIGRATIONS: Record<number, (manifest: any) => any> = {
+    // v2: project-level settings (listening test section)
+    1: (manifest) => ({ ...manifest, settings: DEFAULT_PROJECT_SETTINGS }),
+    // v3: speech engine settings; segments without `provider` follow the project default
+    2: (manifest) => ({ ...manifest, settings: { ...manifest.settings, speech: DEFAULT_PROJECT_SETTINGS.speech } }),
+    // v4: OCR engine settings
+    3: (manifest) => ({ ...manifest, settings: { ...manifest.settings, ocr: DEFAULT_PROJECT_SETTINGS.ocr } }),
+    // v5: pronunciation lexicon
+    4: (manifest) => ({ ...manifest, settings: { ...manifest.settings, lexicon: [] } }),
+    // v6: per-segment delivery style and project style presets
+    5: (manifest) => ({ ...manifest, settings: { ...manifest.settings, stylePresets: DEFAULT_STYLE_PRESETS } }),
+    // v7: background music bed (file stored under music/)
+    6: (manifest) => ({ ...manifest, settings: { ...manifest.settings, musicBed: DEFAULT_PROJECT_SETTINGS.musicBed } }),
+    // v8: per-segment stereo pan (absent = centre)
+    7: (manifest) => manifest,
+    // v9: output sample rate and bit depth (older projects were rendered at 24 kHz)
+    8: (manifest) => ({ ...manifest, settings: { ...manifest.settings, output: { ...DEFAULT_PROJECT_SETTINGS.output, sampleRate: 24000 } } }),
+    // v10: loudness normalization (off, so older projects keep their sound)
+    9: (manifest) => ({ ...manifest, settings: { ...manifest.settings, loudness: { ...DEFAULT_PROJECT_SETTINGS.loudness, enabled: false } } }),
+    // v11: per-segment transitions (absent = cut) and negative delays
+    10: (manifest) => manifest,
+    // v12: silence detection and pause compression (trim points now also apply to generated speech)
+    11: (manifest) => ({ ...manifest, settings: { ...manifest.settings, silence: DEFAULT_PROJECT_SETTINGS.silence } }),
+};
+
+/**
+ * Fills in defaults for settings missing from older or partial files.
+ */
+export const normalizeSettings = (settings?: Partial<ProjectSettings>): ProjectSettings => ({
+    ...DEFAULT_PROJECT_SETTINGS,
+    ...settings,
+    testSection: { ...DEFAULT_PROJECT_SETTINGS.testSection, ...settings?.testSection },
+    speech: { ...DEFAULT_PROJECT_SETTINGS.speech, ...settings?.speech },
+    ocr: { ...DEFAULT_PROJECT_SETTINGS.ocr, ...settings?.ocr },
+    lexicon: Array.isArray(settings?.lexicon) ? settings.lexicon : [],
+    stylePresets: Array.isArray(settings?.stylePresets) ? settings.stylePresets : DEFAULT_STYLE_PRESETS,
+    musicBed: { ...DEFAULT_PROJECT_SETTINGS.musicBed, ...settings?.musicBed },
+    output: { ...DEFAULT_PROJECT_SETTINGS.output, ...settings?.output },
+    loudness: { ...DEFAULT_PROJECT_SETTINGS.loudness, ...settings?.loudness },
+    silence: { ...DEFAULT_PROJECT_SETTINGS.silence, ...settings?.silence }
+});
+
+export const migrateManifest = (raw: any): ProjectManifest => {
+    if (!raw || raw.format !== PROJECT_FORMAT) {
+        throw new Error("This file is not an English Reader project.");
+    }
+
+    let manifest = raw;
+    let version: number = typeof raw.version === 'number' ? raw.version : 1;
+
+    if (version > PROJECT_VERSION) {
+        throw new Error(`This project was saved by a newer version of the app (v${version}).`);
+    }
+
+    while (version < PROJECT_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) {
+            throw new Error(`No migration available for project version ${version}.`);
+        }
+        manifest = migrate(manifest);
+        version++;
+        manifest.version = version;
+    }
+
+    return manifest as ProjectManifest;
+};
+
+/**
+ * Packs all segments (text, OCR sources, generated PCM and uploaded audio) and
+ * project settings into a zip archive.
+ * Autosave passes `compress: false` to keep background saves cheap.
+ */
+export const buildProjectArchive = async (
+    segments: Segment[],
+    settings: ProjectSettings,
+    options: { compress?: boolean } = {}
+): Promise<Blob> => {
+    const zip = new JSZip();
+    const records: ProjectSegmentRecord[] = [];
+
+    for (const seg of segments) {
+        const record: ProjectSegmentRecord = {
+            id: seg.id,
+            inputType: seg.inputType,
+            textRaw: seg.textRaw,
+            fileName: seg.fileName,
+            ocrConfidence: seg.ocrConfidence,
+            duration: seg.duration,
+            trimStart: seg.trimStart,
+            trimEnd: seg.trimEnd,
+            voice: seg.voice,
+            speed: seg.speed,
+            tempo: seg.tempo,
+            pitch: seg.pitch,
+            delay: seg.delay,
+            transition: seg.transition,
+            pan: seg.pan,
+            provider: seg.provider,
+            style: seg.style,
+            providerVoice: seg.providerVoice,
+            speakers: seg.speakers,
+            isQuestion: seg.isQuestion,
+            repeatCount: seg.repeatCount,
+            answerGap: seg.answerGap,
+            answer: seg.answer
+        };
+
+        if (seg.fileData) {
+            const path = `sources/${seg.id}`;
+            zip.file(path, seg.fileData, { base64: true });
+            record.source = { path, mimeType: seg.fileMimeType };
+        }
+
+        if (seg.audioBase64 && seg.audioBase64 !== UPLOADED_AUDIO_MARKER) {
+            const path = `audio/${seg.id}.pcm`;
+            zip.file(path, seg.audioBase64, { base64: true });
+            record.audio = { path, mimeType: 'audio/L16;rate=24000' };
+        }
+
+        if (seg.uploadedAudioURL) {
+            const response = await fetch(seg.uploadedAudioURL);
+            const blob = await response.blob();
+            const path = `uploads/${seg.id}`;
+            zip.file(path, blob);
+            record.upload = { path, mimeType: blob.type || undefined };
+        }
+
+        records.push(record);
+    }
+
+    // The music file is stored as an asset; its blob URL is only valid in this tab
+    const { audioURL: musicURL, ...musicBed } = settings.musicBed;
+    let music: ProjectAssetRef | undefined;
+    if (musicURL) {
+        const blob = await (await fetch(musicURL)).blob();
+        music = { path: MUSIC_PATH, mimeType: blob.type || undefined };
+        zip.file(MUSIC_PATH, blob);
+    }
+
+    const manifest: ProjectManifest = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: new Date().toISOString(),
+        settings: { ...settings, musicBed },
+        segments: records,
+        music
+    };
+    zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+    const compress = options.compress ?? true;
+    return zip.generateAsync({ type: 'blob', compression: compress ? 'DEFLATE' : 'STORE' });
+};
+
+const readAsset = (zip: JSZip, path: string) => {
+    const entry = zip.file(path);
+    if (!entry) {
+        throw new Error(`Project file is missing "${path}".`);
+    }
+    return entry;
+};
+
+/**
+ * Restores segments and settings from a project archive. Uploaded audio is turned back into blob URLs.
+ */
+export const openProjectArchive = async (file: Blob): Promise<{ segments: Segment[]; settings: ProjectSettings }> => {
+    const zip = await JSZip.loadAsync(file);
+    const manifestEntry = zip.file(MANIFEST_PATH);
+    if (!manifestEntry) {
+        throw new Error("This file is not an English Reader project.");
+    }
+
+    const manifest = migrateManifest(JSON.parse(await manifestEntry.async('string')));
+    const segments: Segment[] = [];
+
+    for (const record of manifest.segments) {
+        const segment: Segment = {
+            id: record.id,
+            inputType: record.inputType ?? InputType.TEXT,
+            textRaw: record.textRaw ?? '',
+            fileName: record.fileName,
+            ocrConfidence: record.ocrConfidence,
+            isExtracting: false,
+            isGeneratingAudio: false,
+            audioBase64: null,
+            duration: record.duration,
+            trimStart: record.trimStart,
+            trimEnd: record.trimEnd,
+            voice: record.voice ?? DEFAULT_VOICE,
+            speed: record.speed ?? 1.0,
+            tempo: record.tempo,
+            pitch: record.pitch,
+            delay: record.delay ?? 1.0,
+            transition: record.transition,
+            pan: record.pan,
+            provider: record.provider,
+            style: record.style,
+            providerVoice: record.providerVoice,
+            speakers: record.speakers,
+            isQuestion: record.isQuestion,
+            repeatCount: record.repeatCount,
+            answerGap: record.answerGap,
+            answer: record.answer
+        };
+
+        if (record.source) {
+            segment.fileData = await readAsset(zip, record.source.path).async('base64');
+            segment.fileMimeType = record.source.mimeType;
+        }
+
+        if (record.audio) {
+            segment.audioBase64 = await readAsset(zip, record.audio.path).async('base64');
+        }
+
+        if (record.upload) {
+            const bytes = await readAsset(zip, record.upload.path).async('arraybuffer');
+            const blob = new Blob([bytes], { type: record.upload.mimeType || '' });
+            segment.uploadedAudioURL = URL.createObjectURL(blob);
+            if (!segment.audioBase64) {
+                segment.audioBase64 = UPLOADED_AUDIO_MARKER;
+            }
+        }
+
+        segments.push(segment);
+    }
+
+    const settings = normalizeSettings(manifest.settings);
+    settings.musicBed.audioURL = undefined;
+    if (manifest.music) {
+        const bytes = await readAsset(zip, manifest.music.path).async('arraybuffer');
+        settings.musicBed.audioURL = URL.createObjectURL(new Blob([bytes], { type: manifest.music.mimeType || '' }));
+    }
+
+    return { segments, settings };
+};
@@ -0,0 +1,98 @@
+import { Segment, SessionSummary, ProjectSettings } from '../types';
+import { openAppDatabase, promisifyRequest, transactionDone, SESSIONS_STORE, SESSION_ARCHIVES_STORE } from '../utils/indexedDb';
+import { buildProjectArchive, openProjectArchive } from './projectService';
+
+// Oldest sessions beyond this count are pruned after each autosave
+const MAX_SESSIONS = 10;
+
+interface SessionArchiveRecord {
+  id: string;
+  archive: Blob;
+}
+
+const deriveTitle = (segments: Segment[]): string => {
+    const firstText = segments.find(s => s.textRaw.trim())?.textRaw.trim();
+    if (firstText) {
+        return firstText.length > 60 ? `${firstText.slice(0, 60)}…` : firstText;
+    }
+    const firstFile = segments.find(s => s.fileName)?.fileName;
+    return firstFile || 'Untitled session';
+};
+
+/**
+ * True when the segment list holds nothing worth saving (e.g. the initial blank segment).
+ */
+export const isSessionEmpty = (segments: Segment[]): boolean => {
+    return segments.every(s => !s.textRaw.trim() && !s.audioBase64 && !s.uploadedAudioURL && !s.fileData);
+};
+
+/**
+ * Stores the full segment list (including PCM and uploaded bytes) and settings under the given session id.
+ */
+export const saveSession = async (
+    sessionId: string,
+    segments: Segment[],
+    settings: ProjectSettings
+): Promise<SessionSummary> => {
+    const archive = await buildProjectArchive(segments, settings, { compress: false });
+    const db = await openAppDatabase();
+
+    const existing = await promisifyRequest<SessionSummary | undefined>(
+        db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).get(sessionId)
+    );
+
+    const now = Date.now();
+    const summary: SessionSummary = {
+        id: sessionId,
+        title: deriveTitle(segments),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        segmentCount: segments.length,
+        size: archive.size
+    };
+
+    const tx = db.transaction([SESSIONS_STORE, SESSION_ARCHIVES_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).put(summary);
+    tx.objectStore(SESSION_ARCHIVES_STORE).put({ id: sessionId, archive } as SessionArchiveRecord);
+    await transactionDone(tx);
+
+    await pruneSessions();
+    return summary;
+};
+
+/**
+ * Lists stored sessions, most recently updated first.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const db = await openAppDatabase();
+    const summaries = await promisifyRequest<SessionSummary[]>(
+        db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).getAll()
+    );
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (sessionId: string): Promise<{ segments: Segment[]; settings: ProjectSettings }> => {
+    const db = await openAppDatabase();
+    const record = await promisifyRequest<SessionArchiveRecord | undefined>(
+        db.transaction(SESSION_ARCHIVES_STORE, 'readonly').objectStore(SESSION_ARCHIVES_STORE).get(sessionId)
+    );
+    if (!record) {
+        throw new Error("Session not found.");
+    }
+    return openProjectArchive(record.archive);
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+    const db = await openAppDatabase();
+    const tx = db.transaction([SESSIONS_STORE, SESSION_ARCHIVES_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).delete(sessionId);
+    tx.objectStore(SESSION_ARCHIVES_STORE).delete(sessionId);
+    await transactionDone(tx);
+};
+
+const pruneSessions = async () => {
+    const sessions = await listSessions();
+    for (const stale of sessions.slice(MAX_SESSIONS)) {
+        await deleteSession(stale.id);
+    }
+};
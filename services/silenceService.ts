@@ -0,0 +1,34 @@
+import { Segment, InputType, SilenceSettings } from '../types';
+import { decodeRawPCM } from '../utils/audioUtils';
+import { findTrimPoints } from '../utils/silenceUtils';
+
+const DECODE_SAMPLE_RATE = 24000; // Only times are needed, so decode at the TTS rate
+
+/**
+ * Decodes a segment's own audio (the uploaded file or the generated speech), untrimmed.
+ */
+export const decodeSegmentSource = async (segment: Segment): Promise<AudioBuffer | null> => {
+    const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+    if (segment.inputType === InputType.AUDIO) {
+        if (!segment.uploadedAudioURL) return null;
+        const response = await fetch(segment.uploadedAudioURL);
+        return context.decodeAudioData(await response.arrayBuffer());
+    }
+    return segment.audioBase64 ? decodeRawPCM(segment.audioBase64, context) : null;
+};
+
+/**
+ * Trim points that cut a segment's leading and trailing silence.
+ * Returns null if the segment has no audio or is silent throughout.
+ */
+export const autoTrimSegment = async (
+    segment: Segment,
+    settings: SilenceSettings
+): Promise<Pick<Segment, 'trimStart' | 'trimEnd' | 'duration'> | null> => {
+    const buffer = await decodeSegmentSource(segment);
+    if (!buffer) return null;
+
+    const points = findTrimPoints(buffer, settings);
+    if (!points) return null;
+    return { trimStart: points.start, trimEnd: points.end, duration: buffer.duration };
+};
@@ -0,0 +1,99 @@
+import { Segment, SpeechProviderId, SpeechSettings, SpeechVoice, VoiceName, LexiconEntry } from '../types';
+import { SpeechResult } from './ttsCacheService';
+import { geminiSpeechProvider } from './geminiService';
+import { localSpeechProvider } from './localTtsService';
+import { parseSpeechMarkup, renderSpeechText } from '../utils/speechMarkup';
+import { concatPcmChunks } from '../utils/audioUtils';
+
+export interface SpeechContext {
+  apiKey: string;
+  settings: SpeechSettings;
+  lexicon: LexiconEntry[];
+}
+
+/**
+ * A text-to-speech engine. Every provider returns 16-bit mono PCM at DEFAULT_SAMPLE_RATE
+ * (base64), so clips from different engines can be mixed freely.
+ */
+export interface SpeechProvider {
+  id: SpeechProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  emphasisMarkup: boolean; // Reads *word* as stressed instead of literally
+  supportsStyle: boolean; // Follows a free-text delivery direction ("cheerfully", "whispering")
+  listVoices: (context: SpeechContext) => Promise<SpeechVoice[]>;
+  generate: (text: string, voice: string, context: SpeechContext, style?: string) => Promise<SpeechResult>;
+}
+
+export const SPEECH_PROVIDERS: SpeechProvider[] = [geminiSpeechProvider, localSpeechProvider];
+
+export const getSpeechProvider = (id: SpeechProviderId): SpeechProvider => {
+    return SPEECH_PROVIDERS.find(p => p.id === id) ?? geminiSpeechProvider;
+};
+
+/**
+ * Resolves which engine and voice a segment uses, falling back to the project defaults.
+ */
+export const resolveSegmentSpeech = (segment: Segment, settings: SpeechSettings): { provider: SpeechProvider; voice: string } => {
+    const provider = getSpeechProvider(segment.provider ?? settings.provider);
+    const voice = provider.id === 'gemini' ? segment.voice : (segment.providerVoice || settings.localVoice);
+    return { provider, voice };
+};
+
+/**
+ * Voice used for project-level lines (e.g. test announcer) on the project's default engine.
+ */
+export const resolveProjectVoice = (settings: SpeechSettings, geminiVoice: VoiceName): string => {
+    return settings.provider === 'gemini' ? geminiVoice : settings.localVoice;
+};
+
+export const canUseProvider = (provider: SpeechProvider, apiKey: string): boolean => {
+    return !provider.requiresApiKey || !!apiKey;
+};
+
+/**
+ * Speaks text containing markup: lexicon and spelling are applied to each phrase,
+ * and [pause] markers become exact silences between separately generated phrases.
+ */
+export const speakMarkedUpText = async (
+    provider: SpeechProvider,
+    text: string,
+    voice: string,
+    context: SpeechContext,
+    style?: string
+): Promise<SpeechResult> => {
+    const parts = parseSpeechMarkup(text);
+    const render = (phrase: string) => renderSpeechText(phrase, context.lexicon, provider.emphasisMarkup);
+
+    if (parts.length === 1 && parts[0].type === 'text') {
+        return provider.generate(render(parts[0].text), voice, context, style);
+    }
+
+    // gaps[i] is the silence after chunks[i]; an empty first chunk carries a leading pause
+    const chunks: string[] = [];
+    const gaps: number[] = [];
+    let allCached = true;
+    for (const part of parts) {
+        if (part.type === 'pause') {
+            if (chunks.length === 0) {
+                chunks.push('');
+                gaps.push(0);
+            }
+            gaps[gaps.length - 1] += part.seconds;
+            continue;
+        }
+        const result = await provider.generate(render(part.text), voice, context, style);
+        allCached = allCached && result.fromCache;
+        chunks.push(result.audioBase64);
+        gaps.push(0);
+    }
+    return { audioBase64: concatPcmChunks(chunks, gaps), fromCache: allCached };
+};
+
+/**
+ * Markup for a single dialogue line: pauses are dropped (lines are already separated).
+ */
+export const renderDialogueLine = (text: string, provider: SpeechProvider, context: SpeechContext): string => {
+    const phrases = parseSpeechMarkup(text).flatMap(p => p.type === 'text' ? [p.text] : []);
+    return renderSpeechText(phrases.join(' '), context.lexicon, provider.emphasisMarkup);
+};
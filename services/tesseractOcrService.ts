@@ -0,0 +1,29 @@
+import type { Worker } from 'tesseract.js';
+import type { OcrProvider } from './ocrProvider';
+
+// One worker per language set, created on first use and kept for later pages
+const workers = new Map<string, Promise<Worker>>();
+
+const getWorker = (language: string): Promise<Worker> => {
+    let worker = workers.get(language);
+    if (!worker) {
+        // Loaded on demand: the engine and language data are only fetched when local OCR is used
+        worker = import('tesseract.js').then(({ createWorker }) => createWorker(language.split('+')));
+        worker.catch(() => workers.delete(language));
+        workers.set(language, worker);
+    }
+    return worker;
+};
+
+export const tesseractOcrProvider: OcrProvider = {
+    id: 'tesseract',
+    label: 'Local (Tesseract, on this device)',
+    requiresApiKey: false,
+    isLocal: true,
+    acceptsMimeType: (mimeType) => mimeType.startsWith('image/'),
+    recognize: async (base64Data, mimeType, { language }) => {
+        const worker = await getWorker(language);
+        const { data } = await worker.recognize(`data:${mimeType};base64,${base64Data}`);
+        return { text: data.text.trim(), confidence: Math.round(data.confidence) };
+    }
+};
@@ -0,0 +1,122 @@
+import { openAppDatabase, promisifyRequest, transactionDone, TTS_CACHE_STORE, TTS_CACHE_META_STORE } from '../utils/indexedDb';
+
+// Least recently used clips are evicted once the cache grows past this size
+export const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+export interface SpeechCacheKeyParts {
+  text: string;
+  voice: string; // A VoiceName, or a speaker→voice mapping for multi-speaker requests
+  model: string;
+  style?: string;
+}
+
+export interface SpeechResult {
+  audioBase64: string;
+  fromCache: boolean;
+}
+
+interface CacheEntry {
+  key: string;
+  audioBase64: string;
+}
+
+interface CacheMeta {
+  key: string;
+  size: number;
+  createdAt: number;
+  lastUsed: number;
+}
+
+/**
+ * Hashes the request parameters into a stable cache key (SHA-256 hex).
+ */
+export const buildSpeechCacheKey = async ({ text, voice, model, style }: SpeechCacheKeyParts): Promise<string> => {
+    const payload = JSON.stringify([model, voice, style ?? '', text]);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const readCachedSpeech = async (key: string): Promise<string | null> => {
+    const db = await openAppDatabase();
+    const tx = db.transaction([TTS_CACHE_STORE, TTS_CACHE_META_STORE], 'readwrite');
+    const entry = await promisifyRequest<CacheEntry | undefined>(tx.objectStore(TTS_CACHE_STORE).get(key));
+    if (!entry) return null;
+
+    const metaStore = tx.objectStore(TTS_CACHE_META_STORE);
+    const meta = await promisifyRequest<CacheMeta | undefined>(metaStore.get(key));
+    if (meta) metaStore.put({ ...meta, lastUsed: Date.now() });
+    await transactionDone(tx);
+    return entry.audioBase64;
+};
+
+const writeCachedSpeech = async (key: string, audioBase64: string): Promise<void> => {
+    const db = await openAppDatabase();
+    const now = Date.now();
+
+    const tx = db.transaction([TTS_CACHE_STORE, TTS_CACHE_META_STORE], 'readwrite');
+    tx.objectStore(TTS_CACHE_STORE).put({ key, audioBase64 } as CacheEntry);
+    tx.objectStore(TTS_CACHE_META_STORE).put({ key, size: audioBase64.length, createdAt: now, lastUsed: now } as CacheMeta);
+    await transactionDone(tx);
+
+    await evictSpeechCache();
+};
+
+/**
+ * Deletes least recently used clips until the cache fits in MAX_CACHE_BYTES.
+ */
+const evictSpeechCache = async () => {
+    const db = await openAppDatabase();
+    const tx = db.transaction([TTS_CACHE_STORE, TTS_CACHE_META_STORE], 'readwrite');
+    const metaStore = tx.objectStore(TTS_CACHE_META_STORE);
+    const metas = await promisifyRequest<CacheMeta[]>(metaStore.index('lastUsed').getAll());
+
+    let total = metas.reduce((sum, m) => sum + m.size, 0);
+    for (const meta of metas) {
+        if (total <= MAX_CACHE_BYTES) break;
+        tx.objectStore(TTS_CACHE_STORE).delete(meta.key);
+        metaStore.delete(meta.key);
+        total -= meta.size;
+    }
+    await transactionDone(tx);
+};
+
+/**
+ * Returns cached audio for the request if present, otherwise runs `generate` and caches its result.
+ * Cache failures (e.g. private browsing) never block generation.
+ */
+export const withSpeechCache = async (
+    parts: SpeechCacheKeyParts,
+    generate: () => Promise<string>
+): Promise<SpeechResult> => {
+    let key: string | null = null;
+    try {
+        key = await buildSpeechCacheKey(parts);
+        const cached = await readCachedSpeech(key);
+        if (cached) return { audioBase64: cached, fromCache: true };
+    } catch (e) {
+        console.warn("TTS cache lookup failed", e);
+    }
+
+    const audioBase64 = await generate();
+
+    if (key) {
+        writeCachedSpeech(key, audioBase64).catch(e => console.warn("TTS cache write failed", e));
+    }
+    return { audioBase64, fromCache: false };
+};
+
+export const getSpeechCacheStats = async (): Promise<{ count: number; size: number }> => {
+    const db = await openAppDatabase();
+    const metas = await promisifyRequest<CacheMeta[]>(
+        db.transaction(TTS_CACHE_META_STORE, 'readonly').objectStore(TTS_CACHE_META_STORE).getAll()
+    );
+    return { count: metas.length, size: metas.reduce((sum, m) => sum + m.size, 0) };
+};
+
+export const clearSpeechCache = async (): Promise<void> => {
+    const db = await openAppDatabase();
+    const tx = db.transaction([TTS_CACHE_STORE, TTS_CACHE_META_STORE], 'readwrite');
+    tx.objectStore(TTS_CACHE_STORE).clear();
+    tx.objectStore(TTS_CACHE_META_STORE).clear();
+    await transactionDone(tx);
+};
@@ -2,24 +2,54 @@
 export enum InputType {
   TEXT = 'TEXT',
   FILE = 'FILE', // OCR (Image/PDF)
-  AUDIO = 'AUDIO' // Uploaded Audio
+  AUDIO = 'AUDIO', // Uploaded Audio
+  DIALOGUE = 'DIALOGUE' // Speaker-labelled conversation ("A: ... B: ...")
 }
 
-export enum VoiceName {
-  Puck = 'Puck',   // Male, Tenor
-  Charon = 'Charon', // Male, Deep
-  Kore = 'Kore',   // Female, Alto
-  Fenrir = 'Fenrir', // Male, Bass
-  Zephyr = 'Zephyr' // Female, Soprano
+// Name of a Gemini prebuilt voice; the full list is GEMINI_VOICES in constants.ts
+export type VoiceName = string;
+
+export interface GeminiVoice {
+  name: VoiceName;
+  gender: 'Female' | 'Male';
+  character: string; // One-word description of the voice, e.g. "Bright", "Gravelly"
 }
 
+export type PersonaGender = 'Female' | 'Male' | 'Neutral';
+export type PersonaAgeGroup = 'Child' | 'Teen' | 'Adult' | 'Elderly';
+
 export interface VoicePersona {
   id: string;
   name: string;
-  baseVoice: string;
-  playbackRate: number;
-  gender: string;
-  ageGroup: string;
+  baseVoice: VoiceName;
+  speed: number; // Playback rate applied to the generated clip
+  pitch?: number; // Semitones
+  style?: string; // Delivery direction, e.g. "cheerfully"
+  gender: PersonaGender;
+  ageGroup: PersonaAgeGroup;
+  builtIn?: boolean; // Shipped with the app; not editable
+}
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+export interface DialogueSpeaker {
+  voice: VoiceName;
+  speed: number;
+  pitch?: number; // Semitones, from the speaker's persona
+  style?: string; // Delivery direction for this speaker, overrides the segment style
+}
+
+// How a segment leads into the next one
+export type TransitionType = 'cut' | 'crossfade' | 'fade';
+export type FadeCurve = 'linear' | 'equal-power' | 's-curve' | 'exponential';
+
+export interface SegmentTransition {
+  type: TransitionType; // Cut: delay only; crossfade: overlap the next segment; fade: fade out, delay, fade in
+  duration: number; // Seconds of the crossfade, or of each fade
+  curve: FadeCurve;
 }
 
 export interface Segment {
@@ -32,13 +62,16 @@ export interface Segment {
   fileMimeType?: string;
   fileName?: string;
   isExtracting: boolean;
+  ocrConfidence?: number; // 0-100, reported by engines that support it
   
   // Audio Generation/Upload
   isGeneratingAudio: boolean;
+  queueStatus?: 'queued' | 'retrying'; // Waiting in the Generate All queue
   audioBase64: string | null; // Raw PCM (from Gemini) or Base64 encoded file (from Upload)
   uploadedAudioURL?: string; // For playing back uploaded files directly
+  audioFromCache?: boolean; // Last generated audio was served from the local TTS cache
   
-  // Audio Trimming
+  // Audio Trimming (times in the source audio: the upload, or generated speech before speed/tempo)
   duration?: number; // Total duration in seconds
   trimStart?: number; // Start time in seconds
   trimEnd?: number; // End time in seconds
@@ -46,7 +79,219 @@ export interface Segment {
   // Configuration
   voice: VoiceName;
   speed: number; // 1.0 = Normal, >1.0 = Younger/Faster, <1.0 = Older/Slower
-  delay: number; // Seconds of silence after this segment
+  tempo?: number; // Pitch-preserving time stretch, 1.0 = Normal
+  pitch?: number; // Pitch shift in semitones, 0 = Normal
+  style?: string; // Delivery direction for engines that support it, e.g. "whispering"
+  delay: number; // Seconds of silence after this segment; negative overlaps the next one
+  transition?: SegmentTransition; // Into the next segment, absent = cut
+  pan?: number; // Stereo position, -1 (left) to 1 (right); stereo exports only
+
+  // Speech engine override (undefined = project default) and its voice for non-Gemini engines
+  provider?: SpeechProviderId;
+  providerVoice?: string;
+
+  // Dialogue: voice persona per speaker label
+  speakers?: Record<string, DialogueSpeaker>;
+
+  // Listening Test
+  isQuestion?: boolean; // Announced as "Question N" and followed by an answer gap
+  repeatCount?: number; // Times the segment is played, default 1
+  answerGap?: number; // Seconds of answering time, overrides the section default
+  answer?: string; // Answer key entry
   
   error?: string;
 }
+
+// --- Project Settings ---
+
+export interface TestSectionSettings {
+  enabled: boolean;
+  title: string;
+  instructions: string; // Read by the announcer before the first segment
+  announcerVoice: VoiceName;
+  repeatPrompt: string; // e.g. "Now listen again."
+  closingText: string;
+  answerGap: number; // Default seconds of silence after each question
+}
+
+// --- Output ---
+
+export type OutputSampleRate = 24000 | 44100 | 48000;
+
+export interface OutputSettings {
+  sampleRate: OutputSampleRate; // TTS audio (24 kHz) is upsampled to this rate
+  bitDepth: 16 | 24; // WAV exports
+}
+
+export interface LoudnessSettings {
+  enabled: boolean; // Normalize segments and limit the master on preview
+  targetLufs: number; // Integrated loudness each segment (and the music) is brought to
+  truePeakCeiling: number; // dBTP the master limiter keeps peaks under
+}
+
+export interface SilenceSettings {
+  threshold: number; // dBFS below which audio counts as silence
+  minDuration: number; // Seconds; shorter quiet gaps are part of the speech
+  padding: number; // Seconds kept before the first and after the last sound when trimming
+  compressPauses: boolean; // Shorten long pauses inside segments on preview
+  maxPause: number; // Seconds a long pause is shortened to
+}
+
+// Measured at the last preview, shown next to each segment
+export interface SegmentLoudness {
+  measured: number; // LUFS before normalization, -Infinity for silence
+  gain: number; // dB applied
+}
+
+// --- Music Bed ---
+
+export interface MusicBedSettings {
+  enabled: boolean;
+  fileName?: string;
+  audioURL?: string; // Blob URL of the music file (runtime only; stored as a project asset)
+  volume: number; // 0-1, level while nobody is speaking
+  duckLevel: number; // 0-1, fraction of the volume kept under speech
+  loop: boolean;
+  fadeIn: number; // Seconds
+  fadeOut: number; // Seconds
+  startSegmentId?: string; // Music starts with this segment (default: first)
+  endSegmentId?: string; // Music ends after this segment (default: last)
+}
+
+// --- Speech Providers ---
+
+export type SpeechProviderId = 'gemini' | 'local';
+
+export interface SpeechVoice {
+  id: string;
+  label: string;
+}
+
+export interface SpeechSettings {
+  provider: SpeechProviderId; // Project default, segments may override
+  localUrl: string; // Piper-compatible HTTP TTS server
+  localVoice: string; // Default voice on the local server ('' = server default)
+}
+
+// --- OCR Providers ---
+
+export type OcrProviderId = 'gemini' | 'tesseract';
+
+export interface OcrSettings {
+  provider: OcrProviderId;
+  language: string; // Tesseract language code(s), e.g. 'eng' or 'eng+vie'
+}
+
+// --- Pronunciation ---
+
+export interface LexiconEntry {
+  id: string;
+  term: string; // As written in the script, e.g. "St."
+  spoken: string; // What the voice should say, e.g. "Street"
+  ipa?: string; // Display-only note in the lexicon panel; never used for speech
+  caseSensitive?: boolean;
+}
+
+// --- Delivery Style ---
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  instruction: string; // Natural-language direction sent with the text, e.g. "cheerfully, with a smile"
+}
+
+export interface ProjectSettings {
+  testSection: TestSectionSettings;
+  speech: SpeechSettings;
+  ocr: OcrSettings;
+  lexicon: LexiconEntry[];
+  stylePresets: StylePreset[];
+  musicBed: MusicBedSettings;
+  output: OutputSettings;
+  loudness: LoudnessSettings;
+  silence: SilenceSettings;
+}
+
+// --- Project File ---
+
+export interface ProjectAssetRef {
+  path: string; // Location of the asset inside the project archive
+  mimeType?: string;
+}
+
+export interface ProjectSegmentRecord {
+  id: string;
+  inputType: InputType;
+  textRaw: string;
+  fileName?: string;
+  source?: ProjectAssetRef; // OCR source document (fileData)
+  ocrConfidence?: number;
+  audio?: ProjectAssetRef; // Raw PCM generated by Gemini
+  upload?: ProjectAssetRef; // Original uploaded audio file bytes
+  duration?: number;
+  trimStart?: number;
+  trimEnd?: number;
+  voice: VoiceName;
+  speed: number;
+  tempo?: number;
+  pitch?: number;
+  style?: string;
+  delay: number;
+  transition?: SegmentTransition;
+  pan?: number;
+  provider?: SpeechProviderId;
+  providerVoice?: string;
+  speakers?: Record<string, DialogueSpeaker>;
+  isQuestion?: boolean;
+  repeatCount?: number;
+  answerGap?: number;
+  answer?: string;
+}
+
+export interface ProjectManifest {
+  format: string;
+  version: number;
+  savedAt: string;
+  settings: ProjectSettings;
+  segments: ProjectSegmentRecord[];
+  music?: ProjectAssetRef; // Music bed file
+}
+
+// --- Autosave Sessions ---
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  segmentCount: number;
+  size: number; // Bytes of the stored archive
+}
+
+// --- Export ---
+
+export type ExportFormat = 'wav' | 'mp3' | 'opus';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  bitrate: number; // kbps, used by MP3 and Opus
+  channels: 1 | 2; // Mono, or stereo with per-segment pan
+}
+
+// --- Timeline / Captions ---
+
+export interface TimelineEntry {
+  segmentId: string;
+  text: string;
+  start: number; // Seconds from the start of the merged audio
+  end: number; // Seconds, excluding the trailing delay
+  delay: number; // Seconds of silence after the segment, negative when the next one overlaps
+}
+
+export interface WordTiming {
+  text: string;
+  spoken: boolean; // False for display-only tokens such as dialogue speaker labels
+  lineStart: boolean; // Token begins a new line of the script
+  start: number; // Seconds in the merged audio
+  end: number;
+}
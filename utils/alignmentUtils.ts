@@ -0,0 +1,182 @@
+import { WordTiming } from '../types';
+
+const FRAME_SECONDS = 0.01; // 10ms energy frames
+const MIN_PAUSE_SECONDS = 0.12; // Silence shorter than this is treated as part of a phrase
+const MAX_SNAP_DISTANCE = 0.15; // How far (in text fraction) a pause may be from its word boundary
+const PUNCTUATION_BONUS = 0.05;
+
+export type AlignmentToken = Omit<WordTiming, 'start' | 'end'>;
+
+// "Tom:" at the start of a dialogue line
+const SPEAKER_LABEL = /^\s*([^:：\n]{1,30}?[:：])\s*(.*)$/;
+
+/**
+ * Splits a script into word tokens, keeping line breaks.
+ * For dialogues, speaker labels are kept for display but are not spoken.
+ */
+export const tokenizeScript = (text: string, isDialogue: boolean = false): AlignmentToken[] => {
+    const tokens: AlignmentToken[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        if (!line.trim()) continue;
+
+        let body = line;
+        let lineStart = true;
+        const label = isDialogue ? line.match(SPEAKER_LABEL) : null;
+        if (label && label[2].trim()) {
+            tokens.push({ text: label[1], spoken: false, lineStart: true });
+            body = label[2];
+            lineStart = false;
+        }
+
+        for (const word of body.trim().split(/\s+/)) {
+            tokens.push({ text: word, spoken: true, lineStart });
+            lineStart = false;
+        }
+    }
+    return tokens;
+};
+
+/**
+ * Rough spoken-length weight of a word (letters and digits, digits count more).
+ */
+const wordWeight = (word: string): number => {
+    const letters = (word.match(/\p{L}/gu) || []).length;
+    const digits = (word.match(/\p{N}/gu) || []).length;
+    return Math.max(1, letters + digits * 3);
+};
+
+const endsClause = (word: string) => /[.,!?;:…]["'”’)]*$/.test(word);
+
+/**
+ * RMS energy per frame for a range of the buffer (all channels, so panned speech is found too).
+ */
+const energyEnvelope = (buffer: AudioBuffer, start: number, end: number): Float32Array => {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    const frameSize = Math.max(1, Math.round(FRAME_SECONDS * buffer.sampleRate));
+    const startSample = Math.max(0, Math.floor(start * buffer.sampleRate));
+    const endSample = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+    const frames = Math.max(0, Math.floor((endSample - startSample) / frameSize));
+
+    const envelope = new Float32Array(frames);
+    for (let f = 0; f < frames; f++) {
+        let sum = 0;
+        const offset = startSample + f * frameSize;
+        for (const data of channels) {
+            for (let i = 0; i < frameSize; i++) {
+                const s = data[offset + i];
+                sum += s * s;
+            }
+        }
+        envelope[f] = Math.sqrt(sum / (frameSize * channels.length));
+    }
+    return envelope;
+};
+
+/**
+ * Estimates when each word is spoken in [start, end] of the buffer.
+ * Speech is found by energy; pauses are matched to word boundaries (preferring punctuation),
+ * and words inside each phrase are spread out by their length.
+ */
+export const estimateWordTimings = (
+    buffer: AudioBuffer,
+    start: number,
+    end: number,
+    tokens: AlignmentToken[]
+): WordTiming[] => {
+    const spokenIdx = tokens.map((t, i) => (t.spoken ? i : -1)).filter(i => i >= 0);
+    const result: WordTiming[] = tokens.map(t => ({ ...t, start, end: start }));
+    if (spokenIdx.length === 0 || end <= start) return result;
+
+    // 1. Find voiced frames
+    const envelope = energyEnvelope(buffer, start, end);
+    let peak = 0;
+    envelope.forEach(v => { if (v > peak) peak = v; });
+    const threshold = Math.max(peak * 0.06, 0.003);
+    const voiced = Array.from(envelope, v => v > threshold);
+
+    const first = voiced.indexOf(true);
+    const last = voiced.lastIndexOf(true);
+    const speechStart = first >= 0 ? start + first * FRAME_SECONDS : start;
+    const speechEnd = last >= 0 ? start + (last + 1) * FRAME_SECONDS : end;
+
+    // 2. Find internal pauses
+    const pauses: { start: number; end: number; voicedBefore: number }[] = [];
+    let voicedCount = 0;
+    let runStart = -1;
+    for (let f = Math.max(0, first); f <= last; f++) {
+        if (!voiced[f]) {
+            if (runStart < 0) runStart = f;
+            continue;
+        }
+        if (runStart >= 0 && (f - runStart) * FRAME_SECONDS >= MIN_PAUSE_SECONDS) {
+            pauses.push({
+                start: start + runStart * FRAME_SECONDS,
+                end: start + f * FRAME_SECONDS,
+                voicedBefore: voicedCount
+            });
+        }
+        runStart = -1;
+        voicedCount++;
+    }
+    const totalVoiced = Math.max(1, voicedCount);
+
+    // 3. Snap pauses to word boundaries
+    const weights = spokenIdx.map(i => wordWeight(tokens[i].text));
+    const totalWeight = weights.reduce((a, b) => a + b, 0);
+    const cumulative: number[] = [];
+    weights.reduce((acc, w, j) => (cumulative[j] = acc + w), 0);
+
+    // Each phrase: [first word, last word] (indexes into spokenIdx) and its time span
+    const phrases: { from: number; to: number; start: number; end: number }[] = [];
+    let phraseFrom = 0;
+    let phraseStart = speechStart;
+
+    for (const pause of pauses) {
+        const target = pause.voicedBefore / totalVoiced;
+        let best = -1;
+        let bestScore = Infinity;
+        for (let j = phraseFrom; j < spokenIdx.length - 1; j++) {
+            const distance = Math.abs(cumulative[j] / totalWeight - target);
+            const score = distance - (endsClause(tokens[spokenIdx[j]].text) ? PUNCTUATION_BONUS : 0);
+            if (distance <= MAX_SNAP_DISTANCE && score < bestScore) {
+                bestScore = score;
+                best = j;
+            }
+        }
+        if (best < 0) continue;
+
+        phrases.push({ from: phraseFrom, to: best, start: phraseStart, end: pause.start });
+        phraseFrom = best + 1;
+        phraseStart = pause.end;
+    }
+    phrases.push({ from: phraseFrom, to: spokenIdx.length - 1, start: phraseStart, end: speechEnd });
+
+    // 4. Spread words across each phrase by weight
+    for (const phrase of phrases) {
+        let phraseWeight = 0;
+        for (let j = phrase.from; j <= phrase.to; j++) phraseWeight += weights[j];
+
+        let t = phrase.start;
+        const span = Math.max(0, phrase.end - phrase.start);
+        for (let j = phrase.from; j <= phrase.to; j++) {
+            const duration = phraseWeight > 0 ? (weights[j] / phraseWeight) * span : 0;
+            const timing = result[spokenIdx[j]];
+            timing.start = t;
+            timing.end = t + duration;
+            t += duration;
+        }
+    }
+
+    // Display-only tokens take the start time of the next spoken word
+    let nextStart = speechEnd;
+    for (let i = result.length - 1; i >= 0; i--) {
+        if (result[i].spoken) {
+            nextStart = result[i].start;
+        } else {
+            result[i].start = nextStart;
+            result[i].end = nextStart;
+        }
+    }
+
+    return result;
+};
@@ -1,4 +1,4 @@
-
+import { TimelineEntry, FadeCurve, SegmentTransition } from '../types';
 
 /**
  * Helper to convert base64 string to Uint8Array
@@ -13,6 +13,169 @@ export const base64ToUint8Array = (base64: string): Uint8Array => {
   return bytes;
 };
 
+/**
+ * Helper to convert Uint8Array to base64 string
+ */
+export const uint8ArrayToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Changes the speed of raw 16-bit PCM by linear resampling (same effect as playbackRate).
+ * Used for per-speaker personas in stitched dialogues.
+ */
+export const changePcmSpeed = (base64Data: string, speed: number): string => {
+  if (speed === 1.0) return base64Data;
+
+  const bytes = base64ToUint8Array(base64Data);
+  const input = new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+  const outLength = Math.floor(input.length / speed);
+  const output = new Int16Array(outLength);
+
+  for (let i = 0; i < outLength; i++) {
+    const pos = i * speed;
+    const idx = Math.floor(pos);
+    const frac = pos - idx;
+    const a = input[idx] ?? 0;
+    const b = input[idx + 1] ?? a;
+    output[i] = Math.round(a + (b - a) * frac);
+  }
+
+  return uint8ArrayToBase64(new Uint8Array(output.buffer));
+};
+
+// Band-limited resampling: Kaiser-windowed sinc, looked up from a precomputed table
+const SINC_ZERO_CROSSINGS = 16; // Kernel half-width at full bandwidth
+const SINC_TABLE_RESOLUTION = 512; // Table points per zero crossing
+const SINC_KAISER_BETA = 8.6; // ~80 dB stopband
+const SINC_ROLLOFF = 0.95; // Cutoff as a fraction of the lower Nyquist frequency
+
+let sincTable: Float32Array | null = null;
+
+// Modified Bessel function of the first kind, order 0 (for the Kaiser window)
+const besselI0 = (x: number): number => {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 30; k++) {
+    term *= (x / (2 * k)) * (x / (2 * k));
+    sum += term;
+    if (term < 1e-12 * sum) break;
+  }
+  return sum;
+};
+
+const getSincTable = (): Float32Array => {
+  if (sincTable) return sincTable;
+
+  const size = SINC_ZERO_CROSSINGS * SINC_TABLE_RESOLUTION;
+  const table = new Float32Array(size + 2); // Trailing zeros keep interpolation in bounds
+  const norm = besselI0(SINC_KAISER_BETA);
+  for (let i = 0; i <= size; i++) {
+    const x = i / SINC_TABLE_RESOLUTION;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const r = x / SINC_ZERO_CROSSINGS;
+    table[i] = sinc * besselI0(SINC_KAISER_BETA * Math.sqrt(Math.max(0, 1 - r * r))) / norm;
+  }
+  sincTable = table;
+  return table;
+};
+
+/**
+ * Resamples one channel with a windowed-sinc filter. When downsampling the cutoff
+ * drops to the new Nyquist frequency so high frequencies don't alias.
+ */
+export const resampleChannel = (input: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate === toRate) return input;
+
+  const ratio = toRate / fromRate;
+  const output = new Float32Array(Math.round(input.length * ratio));
+  const scale = Math.min(1, ratio) * SINC_ROLLOFF;
+  const halfWidth = SINC_ZERO_CROSSINGS / scale; // In input samples
+  const table = getSincTable();
+  const tableStep = scale * SINC_TABLE_RESOLUTION;
+
+  for (let n = 0; n < output.length; n++) {
+    const x = n / ratio;
+    const first = Math.max(0, Math.ceil(x - halfWidth));
+    const last = Math.min(input.length - 1, Math.floor(x + halfWidth));
+    let sum = 0;
+    for (let j = first; j <= last; j++) {
+      const t = Math.abs(x - j) * tableStep;
+      const idx = t | 0;
+      const k = table[idx] + (table[idx + 1] - table[idx]) * (t - idx);
+      sum += input[j] * k;
+    }
+    output[n] = sum * scale;
+  }
+  return output;
+};
+
+// Float samples to base64 16-bit PCM, clipped to full scale
+const floatsToPcm = (samples: Float32Array): string => {
+  const output = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    output[i] = Math.round(Math.max(-1, Math.min(1, samples[i])) * 32767);
+  }
+  return uint8ArrayToBase64(new Uint8Array(output.buffer));
+};
+
+/**
+ * Converts raw 16-bit mono PCM (base64) between sample rates, keeping pitch.
+ */
+export const resamplePcm = (base64Data: string, fromRate: number, toRate: number): string => {
+  if (fromRate === toRate) return base64Data;
+
+  const bytes = base64ToUint8Array(base64Data);
+  const input = new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+  const floats = Float32Array.from(input, s => s / 32768);
+  return floatsToPcm(resampleChannel(floats, fromRate, toRate));
+};
+
+/**
+ * Shifts the pitch of raw 16-bit mono PCM by semitones, keeping its length
+ * (stretch, then resample back, as applyTempoAndPitch does for buffers).
+ * Used for per-speaker persona pitch in stitched dialogues.
+ */
+export const changePcmPitch = (base64Data: string, semitones: number = 0, sampleRate: number = 24000): string => {
+  if (!semitones) return base64Data;
+
+  const factor = Math.pow(2, semitones / 12);
+  const bytes = base64ToUint8Array(base64Data);
+  const input = new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+  const buffer = new AudioBuffer({ length: Math.max(1, input.length), numberOfChannels: 1, sampleRate });
+  buffer.copyToChannel(Float32Array.from(input, s => s / 32768), 0);
+
+  const stretched = timeStretchBuffer(buffer, 1 / factor);
+  return floatsToPcm(resampleChannel(stretched.getChannelData(0), sampleRate * factor, sampleRate));
+};
+
+/**
+ * Joins raw 16-bit PCM chunks with silence between them. A single gap is used between
+ * every pair; an array gives the silence after each chunk, so a last entry pads the end.
+ */
+export const concatPcmChunks = (chunks: string[], gapSeconds: number | number[], sampleRate: number = 24000): string => {
+  const parts = chunks.map(base64ToUint8Array);
+  const gapBytes = parts.map((_, i) => {
+    const gap = typeof gapSeconds === 'number' ? (i < parts.length - 1 ? gapSeconds : 0) : (gapSeconds[i] ?? 0);
+    return Math.floor(gap * sampleRate) * 2;
+  });
+  const total = parts.reduce((sum, p, i) => sum + p.length + gapBytes[i], 0);
+
+  const output = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach((part, i) => {
+    output.set(part, offset);
+    offset += part.length + gapBytes[i]; // Zero-filled silence
+  });
+
+  return uint8ArrayToBase64(output);
+};
+
 const writeString = (view: DataView, offset: number, string: string) => {
   for (let i = 0; i < string.length; i++) {
     view.setUint8(offset + i, string.charCodeAt(i));
@@ -49,12 +212,53 @@ export const createWavHeader = (length: number, sampleRate: number = 24000, numC
   return new Uint8Array(buffer);
 };
 
+/**
+ * Extracts 16-bit PCM from a WAV file, keeping only the first channel.
+ */
+export const wavToMonoPcm = (bytes: Uint8Array): { sampleRate: number; pcm: Uint8Array } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readTag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+  if (bytes.length < 12 || readTag(0) !== 'RIFF' || readTag(8) !== 'WAVE') {
+    throw new Error("Response is not a WAV file.");
+  }
+
+  let sampleRate = 0;
+  let numChannels = 1;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const tag = readTag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (tag === 'fmt ') {
+      if (view.getUint16(body, true) !== 1 || view.getUint16(body + 14, true) !== 16) {
+        throw new Error("Only 16-bit PCM WAV is supported.");
+      }
+      numChannels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+    } else if (tag === 'data') {
+      if (!sampleRate) throw new Error("WAV data chunk precedes its format chunk.");
+      const dataLength = Math.min(size, bytes.length - body);
+      const frames = Math.floor(dataLength / (2 * numChannels));
+      const mono = new Int16Array(frames);
+      for (let i = 0; i < frames; i++) {
+        mono[i] = view.getInt16(body + i * numChannels * 2, true);
+      }
+      return { sampleRate, pcm: new Uint8Array(mono.buffer) };
+    }
+    offset = body + size + (size % 2); // Chunks are word-aligned
+  }
+
+  throw new Error("WAV file has no audio data.");
+};
+
 /**
  * Decodes Gemini's Raw PCM (16-bit 24kHz) into an AudioBuffer.
  */
 export const decodeRawPCM = async (
   base64Data: string,
-  audioContext: AudioContext
+  audioContext: BaseAudioContext
 ): Promise<AudioBuffer> => {
   const uint8Array = base64ToUint8Array(base64Data);
   const int16Array = new Int16Array(uint8Array.buffer);
@@ -100,8 +304,106 @@ export const resampleAudioBuffer = async (
 };
 
 /**
- * Converts the sample rate of a buffer to a target rate without changing pitch.
- * Used for normalizing uploaded files (e.g. 44.1k) to app standard (24k).
+ * Changes tempo without changing pitch using WSOLA (Waveform Similarity Overlap-Add).
+ * tempo > 1.0 = faster/shorter, tempo < 1.0 = slower/longer.
+ */
+export const timeStretchBuffer = (buffer: AudioBuffer, tempo: number): AudioBuffer => {
+    if (tempo === 1.0 || buffer.length === 0) return buffer;
+
+    const sampleRate = buffer.sampleRate;
+    const frameSize = Math.round(0.04 * sampleRate); // 40ms analysis frames
+    const synthesisHop = Math.floor(frameSize / 2); // 50% overlap
+    const analysisHop = synthesisHop * tempo;
+    const tolerance = Math.round(0.01 * sampleRate); // ±10ms similarity search
+    const corrStep = 4; // Decimate the correlation for speed
+
+    const outLength = Math.max(1, Math.round(buffer.length / tempo));
+    const numChannels = buffer.numberOfChannels;
+    const inputs = Array.from({ length: numChannels }, (_, c) => buffer.getChannelData(c));
+    const outputs = Array.from({ length: numChannels }, () => new Float32Array(outLength + frameSize));
+    const norm = new Float32Array(outLength + frameSize);
+
+    const window = new Float32Array(frameSize);
+    for (let i = 0; i < frameSize; i++) {
+        window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1));
+    }
+
+    // Similarity is measured on the first channel and applied to all channels
+    const ref = inputs[0];
+    const maxStart = buffer.length - frameSize;
+    let prevStart = 0;
+
+    for (let k = 0; k * synthesisHop < outLength; k++) {
+        const outPos = k * synthesisHop;
+        let start = Math.min(Math.max(0, Math.round(k * analysisHop)), Math.max(0, maxStart));
+
+        if (k > 0) {
+            // Natural continuation of the previously copied frame
+            const target = prevStart + synthesisHop;
+            let bestOffset = 0;
+            let bestCorr = -Infinity;
+            for (let offset = -tolerance; offset <= tolerance; offset++) {
+                const candidate = start + offset;
+                if (candidate < 0 || candidate > maxStart) continue;
+                let corr = 0;
+                for (let i = 0; i < synthesisHop; i += corrStep) {
+                    const a = ref[target + i] ?? 0;
+                    corr += a * ref[candidate + i];
+                }
+                if (corr > bestCorr) {
+                    bestCorr = corr;
+                    bestOffset = offset;
+                }
+            }
+            start += bestOffset;
+        }
+
+        for (let c = 0; c < numChannels; c++) {
+            const input = inputs[c];
+            const output = outputs[c];
+            for (let i = 0; i < frameSize; i++) {
+                output[outPos + i] += (input[start + i] ?? 0) * window[i];
+            }
+        }
+        for (let i = 0; i < frameSize; i++) {
+            norm[outPos + i] += window[i];
+        }
+
+        prevStart = start;
+    }
+
+    const result = new AudioBuffer({ length: outLength, numberOfChannels: numChannels, sampleRate });
+    for (let c = 0; c < numChannels; c++) {
+        const data = result.getChannelData(c);
+        const output = outputs[c];
+        for (let i = 0; i < outLength; i++) {
+            data[i] = norm[i] > 1e-3 ? output[i] / norm[i] : output[i];
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Applies independent tempo (pitch-preserving) and pitch shift (in semitones, duration-preserving).
+ * Pitch is shifted by stretching to the inverse ratio, then resampling back.
+ */
+export const applyTempoAndPitch = async (
+    buffer: AudioBuffer,
+    tempo: number = 1.0,
+    pitchSemitones: number = 0
+): Promise<AudioBuffer> => {
+    const pitchFactor = Math.pow(2, pitchSemitones / 12);
+    if (tempo === 1.0 && pitchFactor === 1.0) return buffer;
+
+    const stretched = timeStretchBuffer(buffer, tempo / pitchFactor);
+    return await resampleAudioBuffer(stretched, pitchFactor);
+};
+
+/**
+ * Converts the sample rate of a buffer to a target rate without changing pitch,
+ * using the band-limited resampler. Used to bring 24 kHz TTS audio and uploads
+ * to the project's output rate.
  */
 export const convertSampleRate = async (
     buffer: AudioBuffer, 
@@ -109,22 +411,55 @@ export const convertSampleRate = async (
 ): Promise<AudioBuffer> => {
     if (buffer.sampleRate === targetRate) return buffer;
 
-    const offlineCtx = new OfflineAudioContext(
-        buffer.numberOfChannels,
-        buffer.duration * targetRate,
-        targetRate
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+        resampleChannel(buffer.getChannelData(c), buffer.sampleRate, targetRate)
     );
+    const result = new AudioBuffer({
+        length: Math.max(1, channels[0].length),
+        numberOfChannels: buffer.numberOfChannels,
+        sampleRate: targetRate
+    });
+    channels.forEach((data, c) => result.copyToChannel(data, c));
+    return result;
+};
 
-    const source = offlineCtx.createBufferSource();
-    source.buffer = buffer;
-    source.connect(offlineCtx.destination);
-    source.start(0);
+const DECLICK_SECONDS = 0.005; // Fade applied at trim points so cuts don't click
 
-    return await offlineCtx.startRendering();
+/**
+ * Gain for a fade-in at progress t (0 to 1); a fade-out uses the gain at 1 - t.
+ * Equal power keeps crossfades of different material at a steady level.
+ */
+export const fadeGain = (t: number, curve: FadeCurve): number => {
+  const x = Math.max(0, Math.min(1, t));
+  switch (curve) {
+    case 'equal-power': return Math.sin(x * Math.PI / 2);
+    case 's-curve': return 0.5 - 0.5 * Math.cos(x * Math.PI);
+    case 'exponential': return x * x * x;
+    default: return x;
+  }
+};
+
+/**
+ * Gain per sample for a clip with a fade-in and fade-out of the given lengths (in samples).
+ */
+const fadeEnvelope = (
+  length: number,
+  fadeIn: number, inCurve: FadeCurve,
+  fadeOut: number, outCurve: FadeCurve
+): Float32Array => {
+  const envelope = new Float32Array(length).fill(1);
+  for (let i = 0; i < Math.min(fadeIn, length); i++) {
+    envelope[i] *= fadeGain((i + 0.5) / fadeIn, inCurve);
+  }
+  for (let i = Math.max(0, length - fadeOut); i < length; i++) {
+    envelope[i] *= fadeGain((length - i - 0.5) / fadeOut, outCurve);
+  }
+  return envelope;
 };
 
 /**
  * Trims an AudioBuffer to the specified start and end times.
+ * Edges that cut into the audio get a short de-click fade.
  */
 export const trimAudioBuffer = (
     buffer: AudioBuffer,
@@ -165,60 +500,246 @@ export const trimAudioBuffer = (
         }
     }
 
+    if (startFrame > 0 || endFrame < buffer.length) {
+        const declick = Math.round(DECLICK_SECONDS * sampleRate);
+        const envelope = fadeEnvelope(
+            frameCount,
+            startFrame > 0 ? declick : 0, 's-curve',
+            endFrame < buffer.length ? declick : 0, 's-curve'
+        );
+        for (let i = 0; i < newBuffer.numberOfChannels; i++) {
+            const data = newBuffer.getChannelData(i);
+            for (let j = 0; j < frameCount; j++) data[j] *= envelope[j];
+        }
+    }
+
     return newBuffer;
 };
 
 /**
- * Merges multiple AudioBuffers with individual delays.
+ * Mono version of a buffer: the first channel, or the average of all channels.
+ */
+export const downmixToMono = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < buffer.length; i++) mono[i] += data[i];
+  }
+  for (let i = 0; i < buffer.length; i++) mono[i] /= buffer.numberOfChannels;
+  return mono;
+};
+
+/**
+ * Left/right gains for a pan position (-1 left … 1 right).
+ * Balance law: the centre keeps both sides at full level, so mono and stereo
+ * exports of a centred project sound equally loud.
+ */
+export const panGains = (pan: number = 0): [number, number] => {
+  const p = Math.max(-1, Math.min(1, pan));
+  return [p > 0 ? 1 - p : 1, p < 0 ? 1 + p : 1];
+};
+
+/**
+ * Merges multiple AudioBuffers with individual delays and transitions.
+ * A negative delay overlaps the next item; a crossfade overlaps it by the transition
+ * length with both sides faded; a fade fades out, waits the delay, and fades the next item in.
+ * Mono output downmixes every item; stereo output keeps stereo uploads and places
+ * each item by its pan. Also returns a timeline with where each item starts and ends in the result.
  */
 export const mergeAudioBuffers = (
-  items: { buffer: AudioBuffer; delay: number }[],
-  audioContext: AudioContext
-): AudioBuffer => {
-  // 1. Calculate total length
+  items: { buffer: AudioBuffer; delay: number; segmentId?: string; text?: string; pan?: number; transition?: SegmentTransition }[],
+  audioContext: AudioContext,
+  numChannels: number = 1
+): { buffer: AudioBuffer; timeline: TimelineEntry[] } => {
+  const sampleRate = audioContext.sampleRate;
+
+  // 1. Place items and work out their fades
+  const starts: number[] = [];
+  const fades = items.map(() => ({ in: 0, inCurve: 'linear' as FadeCurve, out: 0, outCurve: 'linear' as FadeCurve }));
+  let position = 0;
   let totalLength = 0;
   items.forEach((item, index) => {
-    totalLength += item.buffer.length;
-    // Add delay after segment
-    const delaySamples = Math.floor(item.delay * audioContext.sampleRate);
-    totalLength += delaySamples;
+    const length = item.buffer.length;
+    const next = items[index + 1];
+    const { transition } = item;
+    let gap = Math.floor(item.delay * sampleRate);
+
+    if (transition && transition.type !== 'cut') {
+      const fadeLength = Math.floor(transition.duration * sampleRate);
+      if (transition.type === 'crossfade' && next) {
+        const overlap = Math.min(fadeLength, length, next.buffer.length);
+        gap = -overlap;
+        fades[index].out = overlap;
+        fades[index + 1].in = overlap;
+      } else if (transition.type === 'fade') {
+        fades[index].out = Math.min(fadeLength, length);
+        if (next) fades[index + 1].in = Math.min(fadeLength, next.buffer.length);
+      }
+      fades[index].outCurve = transition.curve;
+      if (next) fades[index + 1].inCurve = transition.curve;
+    }
+
+    starts.push(position);
+    totalLength = Math.max(totalLength, position + length + Math.max(0, gap));
+    // An overlap can't reach back before this item's own start
+    position = Math.max(position, position + length + gap);
   });
 
   if (totalLength === 0) {
-     return audioContext.createBuffer(1, 1, audioContext.sampleRate);
+     return { buffer: audioContext.createBuffer(numChannels, 1, sampleRate), timeline: [] };
   }
 
   // 2. Create output buffer
-  const result = audioContext.createBuffer(
-    1, // Force Mono
-    totalLength,
-    audioContext.sampleRate
-  );
-  const outputData = result.getChannelData(0);
-
-  // 3. Merge
-  let offset = 0;
-  for (const item of items) {
-    const inputData = item.buffer.getChannelData(0); // Take first channel
-    
-    // Copy data
-    outputData.set(inputData, offset);
-    offset += inputData.length;
+  const result = audioContext.createBuffer(numChannels, totalLength, sampleRate);
+  const timeline: TimelineEntry[] = [];
 
-    // Add silence (delay)
-    const delaySamples = Math.floor(item.delay * audioContext.sampleRate);
-    offset += delaySamples;
-  }
+  // 3. Mix (items may overlap, so samples are added)
+  items.forEach((item, index) => {
+    const { buffer } = item;
+    const offset = starts[index];
+    const fade = fades[index];
+    const envelope = fade.in || fade.out
+      ? fadeEnvelope(buffer.length, fade.in, fade.inCurve, fade.out, fade.outCurve)
+      : null;
+
+    const mixInto = (output: Float32Array, input: Float32Array, gain: number) => {
+      for (let i = 0; i < input.length; i++) {
+        output[offset + i] += input[i] * gain * (envelope ? envelope[i] : 1);
+      }
+    };
+
+    if (numChannels === 1) {
+      mixInto(result.getChannelData(0), downmixToMono(buffer), 1);
+    } else {
+      const gains = panGains(item.pan);
+      const mono = buffer.numberOfChannels < 2 ? buffer.getChannelData(0) : null;
+      for (let c = 0; c < numChannels; c++) {
+        const input = mono ?? buffer.getChannelData(Math.min(c, buffer.numberOfChannels - 1));
+        mixInto(result.getChannelData(c), input, c < 2 ? gains[c] : 1);
+      }
+    }
 
-  return result;
+    const end = offset + buffer.length;
+    timeline.push({
+      segmentId: item.segmentId ?? '',
+      text: item.text ?? '',
+      start: offset / sampleRate,
+      end: end / sampleRate,
+      // Actual gap to the next item (negative when they overlap)
+      delay: index < items.length - 1 ? (starts[index + 1] - end) / sampleRate : Math.max(0, item.delay)
+    });
+  });
+
+  return { buffer: result, timeline };
+};
+
+// Music bed ducking
+const DUCK_ATTACK = 0.2; // Seconds for the music to dip before speech starts
+const DUCK_RELEASE = 0.5; // Seconds for the music to come back after speech ends
+const ENVELOPE_RATE = 100; // Gain curve points per second
+
+export interface MusicBedMix {
+  volume: number;
+  duckLevel: number; // Fraction of the volume kept under speech
+  loop: boolean;
+  fadeIn: number;
+  fadeOut: number;
+  start: number; // Seconds into the speech track
+  end: number;
+}
+
+/**
+ * Music gain over [0, duration] (relative to the music start): fades at both ends and
+ * dips to volume * duckLevel under each speech range. Ranges closer together than
+ * attack + release are ducked as one, so the music doesn't pump between sentences.
+ */
+export const buildDuckingEnvelope = (
+    speech: { start: number; end: number }[],
+    mix: MusicBedMix,
+    duration: number
+): Float32Array => {
+    const regions: { start: number; end: number }[] = [];
+    for (const range of [...speech].sort((a, b) => a.start - b.start)) {
+        const start = range.start - mix.start;
+        const end = range.end - mix.start;
+        const last = regions[regions.length - 1];
+        if (last && start - last.end < DUCK_ATTACK + DUCK_RELEASE) {
+            last.end = Math.max(last.end, end);
+        } else {
+            regions.push({ start, end });
+        }
+    }
+
+    const points = Math.max(2, Math.ceil(duration * ENVELOPE_RATE) + 1);
+    const envelope = new Float32Array(points);
+    for (let i = 0; i < points; i++) {
+        const t = (i / (points - 1)) * duration;
+
+        const fadeIn = mix.fadeIn > 0 ? t / mix.fadeIn : 1;
+        const fadeOut = mix.fadeOut > 0 ? (duration - t) / mix.fadeOut : 1;
+        const fade = Math.max(0, Math.min(1, fadeIn, fadeOut));
+
+        let duck = 0;
+        for (const region of regions) {
+            if (region.start - DUCK_ATTACK > t) break;
+            if (t <= region.start) duck = Math.max(duck, 1 - (region.start - t) / DUCK_ATTACK);
+            else if (t <= region.end) duck = 1;
+            else if (t < region.end + DUCK_RELEASE) duck = Math.max(duck, 1 - (t - region.end) / DUCK_RELEASE);
+        }
+
+        envelope[i] = mix.volume * fade * (1 - duck * (1 - mix.duckLevel));
+    }
+    return envelope;
+};
+
+/**
+ * Mixes background music under the speech track with an OfflineAudioContext.
+ * The music plays from mix.start to mix.end (looping if asked) and is ducked under
+ * the given speech ranges. The result keeps the speech track's length and channels.
+ */
+export const mixMusicBed = async (
+    speech: AudioBuffer,
+    music: AudioBuffer,
+    speechRanges: { start: number; end: number }[],
+    mix: MusicBedMix
+): Promise<AudioBuffer> => {
+    const offlineCtx = new OfflineAudioContext(speech.numberOfChannels, speech.length, speech.sampleRate);
+
+    const voice = offlineCtx.createBufferSource();
+    voice.buffer = speech;
+    voice.connect(offlineCtx.destination);
+    voice.start(0);
+
+    const start = Math.max(0, Math.min(mix.start, speech.duration));
+    const end = Math.max(start, Math.min(mix.end, speech.duration));
+    const duration = mix.loop ? end - start : Math.min(end - start, music.duration);
+
+    if (duration > 0) {
+        const bed = offlineCtx.createBufferSource();
+        bed.buffer = music;
+        bed.loop = mix.loop;
+
+        const gain = offlineCtx.createGain();
+        gain.gain.setValueCurveAtTime(buildDuckingEnvelope(speechRanges, { ...mix, start }, duration), start, duration);
+
+        bed.connect(gain);
+        gain.connect(offlineCtx.destination);
+        bed.start(start);
+        bed.stop(start + duration);
+    }
+
+    return await offlineCtx.startRendering();
 };
 
 /**
- * Converts an AudioBuffer to a WAV Blob.
+ * Converts an AudioBuffer to a 16- or 24-bit WAV Blob.
  */
-export const bufferToWav = (buffer: AudioBuffer): Blob => {
+export const bufferToWav = (buffer: AudioBuffer, bitDepth: 16 | 24 = 16): Blob => {
   const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2 + 44;
+  const bytesPerSample = bitDepth / 8;
+  const length = buffer.length * numOfChan * bytesPerSample + 44;
   const bufferArray = new ArrayBuffer(length);
   const view = new DataView(bufferArray);
   const channels = [];
@@ -245,9 +766,9 @@ export const bufferToWav = (buffer: AudioBuffer): Blob => {
   setUint16(1); // PCM (uncompressed)
   setUint16(numOfChan);
   setUint32(buffer.sampleRate);
-  setUint32(buffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
-  setUint16(numOfChan * 2); // block-align
-  setUint16(16); // 16-bit 
+  setUint32(buffer.sampleRate * bytesPerSample * numOfChan); // avg. bytes/sec
+  setUint16(numOfChan * bytesPerSample); // block-align
+  setUint16(bitDepth); // bits per sample
 
   setUint32(0x61746164); // "data" - chunk
   setUint32(length - pos - 4); // chunk length
@@ -262,10 +783,19 @@ export const bufferToWav = (buffer: AudioBuffer): Blob => {
       let sample = channels[i][sampleIndex];
       // clamp
       sample = Math.max(-1, Math.min(1, sample));
-      // scale to 16-bit signed int
-      sample = (sample < 0 ? sample * 32768 : sample * 32767);
-      view.setInt16(pos, sample, true);
-      pos += 2;
+      if (bitDepth === 24) {
+        // scale to 24-bit signed int, written as 3 little-endian bytes
+        const int = Math.round(sample < 0 ? sample * 8388608 : sample * 8388607);
+        view.setUint8(pos, int & 0xff);
+        view.setUint8(pos + 1, (int >> 8) & 0xff);
+        view.setUint8(pos + 2, (int >> 16) & 0xff);
+        pos += 3;
+      } else {
+        // scale to 16-bit signed int
+        sample = (sample < 0 ? sample * 32768 : sample * 32767);
+        view.setInt16(pos, sample, true);
+        pos += 2;
+      }
     }
     sampleIndex++;
   }
@@ -0,0 +1,57 @@
+import { DialogueLine, DialogueSpeaker, VoiceName } from '../types';
+
+// "A: Hello", "Mr. Brown: Good morning", "Lan：Xin chào" (full-width colon)
+const SPEAKER_LINE = /^\s*([^:：\n]{1,30}?)\s*[:：]\s*(.*)$/;
+
+// Voices handed out to new speakers, alternating male/female
+const DEFAULT_SPEAKER_VOICES: VoiceName[] = [
+    'Puck',
+    'Kore',
+    'Charon',
+    'Zephyr',
+    'Fenrir'
+];
+
+/**
+ * Parses speaker-labelled lines. Unlabelled lines continue the previous speaker's turn.
+ */
+export const parseDialogue = (text: string): DialogueLine[] => {
+    const lines: DialogueLine[] = [];
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        if (!rawLine.trim()) continue;
+
+        const match = rawLine.match(SPEAKER_LINE);
+        if (match && match[2].trim()) {
+            lines.push({ speaker: match[1].trim(), text: match[2].trim() });
+        } else if (lines.length > 0) {
+            lines[lines.length - 1].text += ` ${rawLine.trim()}`;
+        }
+    }
+
+    return lines;
+};
+
+/**
+ * Unique speaker labels in order of first appearance.
+ */
+export const getSpeakers = (lines: DialogueLine[]): string[] => {
+    return Array.from(new Set(lines.map(l => l.speaker)));
+};
+
+/**
+ * Keeps existing speaker personas and assigns a default voice to any new speaker.
+ */
+export const assignSpeakerVoices = (
+    speakers: string[],
+    existing: Record<string, DialogueSpeaker> = {}
+): Record<string, DialogueSpeaker> => {
+    const result: Record<string, DialogueSpeaker> = {};
+    speakers.forEach((speaker, i) => {
+        result[speaker] = existing[speaker] ?? {
+            voice: DEFAULT_SPEAKER_VOICES[i % DEFAULT_SPEAKER_VOICES.length],
+            speed: 1.0
+        };
+    });
+    return result;
+};
@@ -0,0 +1,39 @@
+// Small selections are enlarged so OCR engines see letters at a readable size
+const MIN_CROP_WIDTH = 1000;
+
+export interface NormalizedRect {
+  x: number; // 0-1, relative to the image width
+  y: number;
+  width: number;
+  height: number;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load the image."));
+    img.src = src;
+});
+
+/**
+ * Crops a region of an image and returns it as a PNG (base64, no data: prefix).
+ */
+export const cropImageRegion = async (src: string, rect: NormalizedRect): Promise<string> => {
+    const img = await loadImage(src);
+    const sx = rect.x * img.naturalWidth;
+    const sy = rect.y * img.naturalHeight;
+    const sw = Math.max(1, rect.width * img.naturalWidth);
+    const sh = Math.max(1, rect.height * img.naturalHeight);
+    const scale = Math.max(1, Math.min(4, MIN_CROP_WIDTH / sw));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(sw * scale);
+    canvas.height = Math.round(sh * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported.");
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png').split(',')[1];
+};
@@ -0,0 +1,93 @@
+const DB_NAME = 'english-reader-creator';
+const DB_VERSION = 3;
+
+export const SESSIONS_STORE = 'sessions';
+export const SESSION_ARCHIVES_STORE = 'session-archives'; // Archive blobs, kept apart so listing sessions doesn't load them
+export const TTS_CACHE_STORE = 'tts-cache';
+export const TTS_CACHE_META_STORE = 'tts-cache-meta'; // Sizes and access times, kept apart so LRU scans don't load audio
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and upgrades if needed) the app's IndexedDB database.
+ * The connection is shared across all callers.
+ */
+export const openAppDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error("IndexedDB is not available in this browser."));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                store.createIndex('updatedAt', 'updatedAt');
+            }
+            if (!db.objectStoreNames.contains(SESSION_ARCHIVES_STORE)) {
+                const archives = db.createObjectStore(SESSION_ARCHIVES_STORE, { keyPath: 'id' });
+                if (event.oldVersion > 0 && event.oldVersion < 3) {
+                    // v2 kept the archive inside each session record: move it out
+                    request.transaction!.objectStore(SESSIONS_STORE).openCursor().onsuccess = (e) => {
+                        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+                        if (!cursor) return;
+                        const { archive, ...summary } = cursor.value;
+                        archives.put({ id: summary.id, archive });
+                        cursor.update(summary);
+                        cursor.continue();
+                    };
+                }
+            }
+            if (!db.objectStoreNames.contains(TTS_CACHE_STORE)) {
+                db.createObjectStore(TTS_CACHE_STORE, { keyPath: 'key' });
+            }
+            if (!db.objectStoreNames.contains(TTS_CACHE_META_STORE)) {
+                const store = db.createObjectStore(TTS_CACHE_META_STORE, { keyPath: 'key' });
+                store.createIndex('lastUsed', 'lastUsed');
+            }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+
+    return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest in a Promise.
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Resolves once a transaction has committed.
+ */
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+/**
+ * Returns the storage usage/quota reported by the browser, if supported.
+ */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const estimate = await navigator.storage.estimate();
+    return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0 };
+};
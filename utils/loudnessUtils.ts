@@ -0,0 +1,274 @@
+// Loudness measurement (ITU-R BS.1770 / EBU R128), normalization and a true-peak limiter
+
+const BLOCK_SECONDS = 0.4; // Gating block length
+const BLOCK_STEP_SECONDS = 0.1; // 75% overlap between blocks
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU below the ungated loudness
+const MAX_NORMALIZE_GAIN = 20; // dB; keeps near-silent recordings from being boosted into noise
+
+const OVERSAMPLING = 4; // True-peak estimation factor
+const INTERPOLATION_TAPS = 12; // Input samples per interpolated point
+
+const LIMITER_LOOKAHEAD = 0.005; // Seconds the gain starts dropping before a peak
+const LIMITER_RELEASE = 0.1; // Seconds for the gain to recover
+
+export interface LoudnessStats {
+  integrated: number; // LUFS, -Infinity for silence
+  truePeak: number; // dBTP, -Infinity for silence
+}
+
+const toDb = (linear: number) => 20 * Math.log10(linear);
+const fromDb = (db: number) => Math.pow(10, db / 20);
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number];
+}
+
+/**
+ * The two K-weighting stages (high shelf, then high pass) for any sample rate.
+ */
+const kWeightingFilters = (sampleRate: number): Biquad[] => {
+    let f0 = 1681.974450955533;
+    let q = 0.7071752369554196;
+    let k = Math.tan(Math.PI * f0 / sampleRate);
+    const vh = Math.pow(10, 3.999843853973347 / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    let a0 = 1 + k / q + k * k;
+    const shelf: Biquad = {
+        b: [(vh + vb * k / q + k * k) / a0, 2 * (k * k - vh) / a0, (vh - vb * k / q + k * k) / a0],
+        a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0]
+    };
+
+    f0 = 38.13547087602444;
+    q = 0.5003270373238773;
+    k = Math.tan(Math.PI * f0 / sampleRate);
+    a0 = 1 + k / q + k * k;
+    const highPass: Biquad = {
+        b: [1, -2, 1],
+        a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0]
+    };
+
+    return [shelf, highPass];
+};
+
+const applyBiquad = (input: Float32Array, { b, a }: Biquad): Float32Array => {
+    const output = new Float32Array(input.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < input.length; i++) {
+        const x = input[i];
+        const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+        x2 = x1; x1 = x;
+        y2 = y1; y1 = y;
+        output[i] = y;
+    }
+    return output;
+};
+
+const blockLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+
+/**
+ * Gated integrated loudness in LUFS. Clips shorter than one block are measured as a single block.
+ */
+export const measureIntegratedLoudness = (buffer: AudioBuffer): number => {
+    const filters = kWeightingFilters(buffer.sampleRate);
+    const weighted = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+        filters.reduce(applyBiquad, buffer.getChannelData(c))
+    );
+
+    const blockSize = Math.min(buffer.length, Math.round(BLOCK_SECONDS * buffer.sampleRate));
+    const step = Math.max(1, Math.round(BLOCK_STEP_SECONDS * buffer.sampleRate));
+    if (blockSize === 0) return -Infinity;
+
+    // Mean square per block, summed over channels (all weighted 1 for mono and stereo)
+    const blocks: number[] = [];
+    for (let start = 0; start + blockSize <= buffer.length; start += step) {
+        let power = 0;
+        for (const channel of weighted) {
+            let sum = 0;
+            for (let i = start; i < start + blockSize; i++) sum += channel[i] * channel[i];
+            power += sum / blockSize;
+        }
+        blocks.push(power);
+    }
+
+    const gated = (threshold: number) => blocks.filter(p => p > 0 && blockLoudness(p) > threshold);
+    const meanPower = (powers: number[]) => powers.reduce((sum, p) => sum + p, 0) / powers.length;
+
+    const audible = gated(ABSOLUTE_GATE);
+    if (audible.length === 0) return -Infinity;
+    const relativeThreshold = blockLoudness(meanPower(audible)) + RELATIVE_GATE;
+    const counted = gated(Math.max(ABSOLUTE_GATE, relativeThreshold));
+    return blockLoudness(meanPower(counted));
+};
+
+let interpolationTable: Float32Array[] | null = null;
+
+// Hann-windowed sinc coefficients for the points between two samples
+const getInterpolationTable = (): Float32Array[] => {
+    if (interpolationTable) return interpolationTable;
+
+    const half = INTERPOLATION_TAPS / 2;
+    interpolationTable = Array.from({ length: OVERSAMPLING - 1 }, (_, p) => {
+        const fraction = (p + 1) / OVERSAMPLING;
+        return Float32Array.from({ length: INTERPOLATION_TAPS }, (_, j) => {
+            const t = fraction - (j - half + 1);
+            const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+            return sinc * 0.5 * (1 + Math.cos(Math.PI * t / half));
+        });
+    });
+    return interpolationTable;
+};
+
+/**
+ * Per-sample peak of one channel including the oversampled points up to the next sample,
+ * so peaks that fall between samples (and clip after conversion) are caught.
+ */
+const interSamplePeaks = (input: Float32Array): Float32Array => {
+    const table = getInterpolationTable();
+    const half = INTERPOLATION_TAPS / 2;
+    const peaks = new Float32Array(input.length);
+
+    for (let m = 0; m < input.length; m++) {
+        let peak = Math.abs(input[m]);
+        for (const coefficients of table) {
+            let value = 0;
+            for (let j = 0; j < INTERPOLATION_TAPS; j++) {
+                const index = m + j - half + 1;
+                if (index >= 0 && index < input.length) value += input[index] * coefficients[j];
+            }
+            peak = Math.max(peak, Math.abs(value));
+        }
+        peaks[m] = peak;
+    }
+    return peaks;
+};
+
+/**
+ * Highest peak across all channels in dBTP, estimated with 4x oversampling.
+ */
+export const measureTruePeak = (buffer: AudioBuffer): number => {
+    let peak = 0;
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const peaks = interSamplePeaks(buffer.getChannelData(c));
+        for (let i = 0; i < peaks.length; i++) {
+            if (peaks[i] > peak) peak = peaks[i];
+        }
+    }
+    return toDb(peak);
+};
+
+/**
+ * Integrated loudness and true peak. Pass the true peak when it is already known
+ * (e.g. from the limiter) to skip the oversampled scan.
+ */
+export const measureLoudness = (buffer: AudioBuffer, truePeak: number = measureTruePeak(buffer)): LoudnessStats => ({
+    integrated: measureIntegratedLoudness(buffer),
+    truePeak
+});
+
+/**
+ * Returns a copy of the buffer with a gain (in dB) applied.
+ */
+export const applyGain = (buffer: AudioBuffer, gainDb: number): AudioBuffer => {
+    if (gainDb === 0) return buffer;
+
+    const gain = fromDb(gainDb);
+    const result = new AudioBuffer({
+        length: buffer.length,
+        numberOfChannels: buffer.numberOfChannels,
+        sampleRate: buffer.sampleRate
+    });
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const data = Float32Array.from(buffer.getChannelData(c), s => s * gain);
+        result.copyToChannel(data, c);
+    }
+    return result;
+};
+
+/**
+ * Brings a buffer to the target integrated loudness. Silent buffers are left alone,
+ * and the boost is capped so quiet recordings don't turn into noise.
+ */
+export const normalizeLoudness = (
+    buffer: AudioBuffer,
+    targetLufs: number
+): { buffer: AudioBuffer; measured: number; gain: number } => {
+    const measured = measureIntegratedLoudness(buffer);
+    if (!Number.isFinite(measured)) return { buffer, measured, gain: 0 };
+
+    const gain = Math.min(MAX_NORMALIZE_GAIN, targetLufs - measured);
+    return { buffer: applyGain(buffer, gain), measured, gain };
+};
+
+/**
+ * Look-ahead limiter that keeps the true peak at or below the ceiling (dBTP).
+ * The gain is a windowed minimum, smoothed so it never exceeds what each sample needs,
+ * followed by an exponential release.
+ * Also returns the output's true peak (dBTP), from the same oversampled scan.
+ */
+export const applyTruePeakLimiter = (buffer: AudioBuffer, ceilingDb: number): { buffer: AudioBuffer; truePeak: number } => {
+    const ceiling = fromDb(ceilingDb);
+    const length = buffer.length;
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    const peaks = channels.map(interSamplePeaks);
+
+    // Gain each sample needs on its own
+    const needed = new Float32Array(length).fill(1);
+    let inputPeak = 0;
+    for (const channelPeaks of peaks) {
+        for (let i = 0; i < length; i++) {
+            inputPeak = Math.max(inputPeak, channelPeaks[i]);
+            if (channelPeaks[i] > ceiling) needed[i] = Math.min(needed[i], ceiling / channelPeaks[i]);
+        }
+    }
+    if (inputPeak <= ceiling) return { buffer, truePeak: toDb(inputPeak) };
+
+    // Minimum over +/- lookahead, using a monotonic queue
+    const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD * buffer.sampleRate));
+    const windowMin = new Float32Array(length);
+    const queue = new Int32Array(length);
+    let head = 0, tail = 0;
+    for (let i = 0; i < length + lookahead; i++) {
+        if (i < length) {
+            while (tail > head && needed[queue[tail - 1]] >= needed[i]) tail--;
+            queue[tail++] = i;
+        }
+        const centre = i - lookahead;
+        if (centre < 0) continue;
+        while (queue[head] < centre - lookahead) head++;
+        windowMin[centre] = needed[queue[head]];
+    }
+
+    // Averaging over the same window ramps the gain down ahead of each peak
+    const valueAt = (i: number) => windowMin[Math.min(length - 1, Math.max(0, i))];
+    const smoothed = new Float32Array(length);
+    const width = 2 * lookahead + 1;
+    let sum = 0;
+    for (let k = -lookahead; k <= lookahead; k++) sum += valueAt(k);
+    for (let i = 0; i < length; i++) {
+        smoothed[i] = sum / width;
+        sum += valueAt(i + lookahead + 1) - valueAt(i - lookahead);
+    }
+
+    const release = 1 - Math.exp(-1 / (LIMITER_RELEASE * buffer.sampleRate));
+    const result = new AudioBuffer({ length, numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate });
+    const output = channels.map(() => new Float32Array(length));
+    let gain = 1;
+    let outputPeak = 0;
+    for (let i = 0; i < length; i++) {
+        gain = Math.min(smoothed[i], gain + (1 - gain) * release);
+        for (let c = 0; c < channels.length; c++) {
+            output[c][i] = channels[c][i] * gain;
+            outputPeak = Math.max(outputPeak, peaks[c][i] * gain);
+        }
+    }
+    output.forEach((data, c) => result.copyToChannel(data, c));
+    return { buffer: result, truePeak: toDb(outputPeak) };
+};
+
+/**
+ * "-16.0 LUFS"; a dash for silence.
+ */
+export const formatLoudness = (value: number, unit: 'LUFS' | 'dBTP' = 'LUFS'): string =>
+    Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : `— ${unit}`;
@@ -0,0 +1,158 @@
+// Ogg container writer for Opus streams (RFC 3533 / RFC 7845).
+
+// Opus granule positions are always counted at 48 kHz
+export const OPUS_GRANULE_RATE = 48000;
+
+// Encoder lookahead to discard at the start of playback (libopus default)
+export const OPUS_PRE_SKIP = 312;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let r = i << 24;
+        for (let j = 0; j < 8; j++) {
+            r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+        }
+        table[i] = r >>> 0;
+    }
+    return table;
+})();
+
+const oggCrc = (data: Uint8Array): number => {
+    let crc = 0;
+    for (let i = 0; i < data.length; i++) {
+        crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) & 0xff) ^ data[i]]) >>> 0;
+    }
+    return crc;
+};
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+/**
+ * Builds the OpusHead identification header.
+ */
+export const createOpusHead = (channels: number, inputSampleRate: number): Uint8Array => {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    writeAscii(view, 0, 'OpusHead');
+    view.setUint8(8, 1); // Version
+    view.setUint8(9, channels);
+    view.setUint16(10, OPUS_PRE_SKIP, true);
+    view.setUint32(12, inputSampleRate, true);
+    view.setInt16(16, 0, true); // Output gain
+    view.setUint8(18, 0); // Channel mapping family (mono/stereo)
+    return head;
+};
+
+/**
+ * Builds the OpusTags comment header.
+ */
+export const createOpusTags = (vendor: string): Uint8Array => {
+    const vendorBytes = new TextEncoder().encode(vendor);
+    const tags = new Uint8Array(8 + 4 + vendorBytes.length + 4);
+    const view = new DataView(tags.buffer);
+    writeAscii(view, 0, 'OpusTags');
+    view.setUint32(8, vendorBytes.length, true);
+    tags.set(vendorBytes, 12);
+    view.setUint32(12 + vendorBytes.length, 0, true); // No user comments
+    return tags;
+};
+
+const createPage = (
+    packets: Uint8Array[],
+    granule: number,
+    serial: number,
+    sequence: number,
+    headerType: number
+): Uint8Array => {
+    const lacing: number[] = [];
+    for (const packet of packets) {
+        let remaining = packet.length;
+        while (remaining >= 255) {
+            lacing.push(255);
+            remaining -= 255;
+        }
+        lacing.push(remaining);
+    }
+
+    const bodyLength = packets.reduce((sum, p) => sum + p.length, 0);
+    const page = new Uint8Array(27 + lacing.length + bodyLength);
+    const view = new DataView(page.buffer);
+
+    writeAscii(view, 0, 'OggS');
+    view.setUint8(4, 0); // Version
+    view.setUint8(5, headerType);
+    view.setUint32(6, granule % 0x100000000, true);
+    view.setUint32(10, Math.floor(granule / 0x100000000), true);
+    view.setUint32(14, serial, true);
+    view.setUint32(18, sequence, true);
+    view.setUint32(22, 0, true); // CRC placeholder
+    view.setUint8(26, lacing.length);
+    page.set(lacing, 27);
+
+    let offset = 27 + lacing.length;
+    for (const packet of packets) {
+        page.set(packet, offset);
+        offset += packet.length;
+    }
+
+    view.setUint32(22, oggCrc(page), true);
+    return page;
+};
+
+/**
+ * Wraps encoded Opus packets into an Ogg Opus file.
+ * `packetSamples` holds each packet's duration in 48 kHz samples; `totalSamples` is the
+ * source length in 48 kHz samples, used to trim encoder padding on the last page.
+ */
+export const muxOggOpus = (
+    packets: Uint8Array[],
+    packetSamples: number[],
+    channels: number,
+    inputSampleRate: number,
+    totalSamples: number
+): Uint8Array => {
+    const serial = Math.floor(Math.random() * 0xffffffff) >>> 0;
+    const pages: Uint8Array[] = [];
+    let sequence = 0;
+
+    pages.push(createPage([createOpusHead(channels, inputSampleRate)], 0, serial, sequence++, 0x02));
+    pages.push(createPage([createOpusTags('English Reader Creator')], 0, serial, sequence++, 0));
+
+    const finalGranule = OPUS_PRE_SKIP + totalSamples;
+    let granule = OPUS_PRE_SKIP;
+    let pending: Uint8Array[] = [];
+    let pendingSegments = 0;
+
+    const flush = (isLast: boolean) => {
+        const pageGranule = isLast ? Math.min(granule, finalGranule) : granule;
+        pages.push(createPage(pending, pageGranule, serial, sequence++, isLast ? 0x04 : 0));
+        pending = [];
+        pendingSegments = 0;
+    };
+
+    packets.forEach((packet, i) => {
+        const segments = Math.floor(packet.length / 255) + 1;
+        if (pendingSegments + segments > 255) flush(false);
+
+        pending.push(packet);
+        pendingSegments += segments;
+        granule += packetSamples[i];
+
+        // Keep pages around one second for seeking
+        if (pendingSegments >= 50) flush(i === packets.length - 1);
+    });
+
+    if (pending.length > 0 || packets.length === 0) flush(true);
+
+    const total = pages.reduce((sum, p) => sum + p.length, 0);
+    const output = new Uint8Array(total);
+    let offset = 0;
+    for (const page of pages) {
+        output.set(page, offset);
+        offset += page.length;
+    }
+    return output;
+};
@@ -0,0 +1,93 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { base64ToUint8Array } from './audioUtils';
+
+// Embedded text shorter than this is treated as a scanned page that needs OCR
+const MIN_EMBEDDED_TEXT_LENGTH = 20;
+
+let workerReady = false;
+
+const loadPdfJs = async () => {
+    const pdfjs = await import('pdfjs-dist');
+    if (!workerReady) {
+        pdfjs.GlobalWorkerOptions.workerPort = new Worker(new URL('../workers/pdfWorker.ts', import.meta.url), { type: 'module' });
+        workerReady = true;
+    }
+    return pdfjs;
+};
+
+/**
+ * Opens a PDF from base64 data (as stored in `Segment.fileData`).
+ */
+export const openPdf = async (base64Data: string): Promise<PDFDocumentProxy> => {
+    const pdfjs = await loadPdfJs();
+    return pdfjs.getDocument({ data: base64ToUint8Array(base64Data) }).promise;
+};
+
+/**
+ * Renders a page to a canvas of the given width.
+ */
+const renderPage = async (pdf: PDFDocumentProxy, pageNumber: number, width: number): Promise<HTMLCanvasElement> => {
+    const page = await pdf.getPage(pageNumber);
+    const baseViewport = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: width / baseViewport.width });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported.");
+
+    await page.render({ canvasContext: ctx, viewport }).promise;
+    page.cleanup();
+    return canvas;
+};
+
+/**
+ * Small JPEG preview of a page for the page picker.
+ */
+export const renderPageThumbnail = async (pdf: PDFDocumentProxy, pageNumber: number, width: number = 160): Promise<string> => {
+    const canvas = await renderPage(pdf, pageNumber, width);
+    return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+/**
+ * Renders a page as a PNG (base64, no data: prefix) at a resolution suitable for OCR.
+ */
+export const renderPageForOcr = async (pdf: PDFDocumentProxy, pageNumber: number, width: number = 1600): Promise<string> => {
+    const canvas = await renderPage(pdf, pageNumber, width);
+    return canvas.toDataURL('image/png').split(',')[1];
+};
+
+/**
+ * Returns the page's embedded text layer, or null for scanned pages without one.
+ */
+export const extractEmbeddedText = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<string | null> => {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+
+    let text = '';
+    for (const item of content.items) {
+        if (!('str' in item)) continue;
+        text += item.str;
+        if (item.hasEOL) text += '\n';
+        else if (item.str && !item.str.endsWith(' ')) text += ' ';
+    }
+    text = text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    return text.length >= MIN_EMBEDDED_TEXT_LENGTH ? text : null;
+};
+
+/**
+ * Parses a page selection like "1-3, 5, 8-" into sorted page numbers within [1, pageCount].
+ */
+export const parsePageRange = (input: string, pageCount: number): number[] => {
+    const pages = new Set<number>();
+    for (const part of input.split(',')) {
+        const match = part.trim().match(/^(\d+)?\s*(-)?\s*(\d+)?$/);
+        if (!match || (!match[1] && !match[3])) continue;
+
+        const from = match[1] ? parseInt(match[1], 10) : 1;
+        const to = match[2] ? (match[3] ? parseInt(match[3], 10) : pageCount) : from;
+        for (let p = Math.max(1, from); p <= Math.min(pageCount, to); p++) pages.add(p);
+    }
+    return Array.from(pages).sort((a, b) => a - b);
+};
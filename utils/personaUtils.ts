@@ -0,0 +1,59 @@
+import { VoicePersona, VoiceName, Segment, PersonaAgeGroup, DialogueSpeaker } from '../types';
+import { PERSONA_AGE_GROUPS } from '../constants';
+
+export const findPersona = (personas: VoicePersona[], id: string): VoicePersona | undefined => {
+    return personas.find(p => p.id === id);
+};
+
+/**
+ * Finds the persona matching a voice and speed. Pitch and style are compared only when given.
+ * Returns undefined for combinations that are not in the library.
+ */
+export const matchPersona = (
+    personas: VoicePersona[],
+    voice: VoiceName,
+    speed: number,
+    extras?: { pitch?: number; style?: string }
+): VoicePersona | undefined => {
+    return personas.find(p =>
+        p.baseVoice === voice &&
+        Math.abs(p.speed - speed) < 0.01 &&
+        (!extras || ((p.pitch ?? 0) === (extras.pitch ?? 0) && (p.style ?? '') === (extras.style ?? '')))
+    );
+};
+
+/**
+ * Segment fields set when a persona is picked for a text segment.
+ */
+export const personaToSegment = (persona: VoicePersona): Partial<Segment> => ({
+    voice: persona.baseVoice,
+    speed: persona.speed,
+    pitch: persona.pitch || undefined,
+    style: persona.style || undefined
+});
+
+/**
+ * Dialogue speaker settings for a persona (its voice, speed, pitch and style).
+ */
+export const personaToSpeaker = (persona: VoicePersona): DialogueSpeaker => ({
+    voice: persona.baseVoice,
+    speed: persona.speed,
+    pitch: persona.pitch || undefined,
+    style: persona.style || undefined
+});
+
+/**
+ * The library persona a dialogue speaker was set from, if any.
+ */
+export const matchSpeakerPersona = (personas: VoicePersona[], speaker: DialogueSpeaker): VoicePersona | undefined => {
+    return matchPersona(personas, speaker.voice, speaker.speed, { pitch: speaker.pitch, style: speaker.style });
+};
+
+/**
+ * Personas grouped for a picker, in age order; empty groups are left out.
+ */
+export const groupPersonasByAge = (personas: VoicePersona[]): { ageGroup: PersonaAgeGroup; label: string; personas: VoicePersona[] }[] => {
+    return PERSONA_AGE_GROUPS
+        .map(group => ({ ageGroup: group.id, label: group.label, personas: personas.filter(p => p.ageGroup === group.id) }))
+        .filter(group => group.personas.length > 0);
+};
@@ -0,0 +1,86 @@
+import { parseDialogue } from './dialogueUtils';
+
+export type SplitMode = 'paragraph' | 'sentence' | 'question' | 'speaker';
+
+export interface ScriptChunk {
+  text: string;
+  speaker?: string;
+}
+
+// Abbreviations that end with a period but do not end a sentence
+const ABBREVIATIONS = ['Mr', 'Mrs', 'Ms', 'Dr', 'St', 'Prof', 'Sr', 'Jr', 'Mt', 'vs', 'etc', 'e.g', 'i.e'];
+
+// Only an abbreviation before a number ("No. 5"); otherwise the word "No."
+const NUMBER_ABBREVIATIONS = ['No'];
+
+// "1. ...", "2) ...", "Question 3: ...", "Q4 ..."
+const QUESTION_START = /^\s*(?:(?:question|q)\s*\d+\b[.:)]?|\d+\s*[.)])\s*/i;
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const splitParagraphs = (text: string): ScriptChunk[] => {
+    return text
+        .split(/\r?\n\s*\r?\n/)
+        .map(normalize)
+        .filter(Boolean)
+        .map(p => ({ text: p }));
+};
+
+const splitSentences = (text: string): ScriptChunk[] => {
+    const flat = normalize(text);
+    const chunks: ScriptChunk[] = [];
+    const boundary = /[.!?]+["'”’)]*\s+/g;
+
+    let start = 0;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(flat)) !== null) {
+        const end = match.index + match[0].length;
+        const candidate = flat.slice(start, end).trim();
+        const lastWord = candidate.split(' ').pop()?.replace(/[.!?"'”’)]+$/, '') || '';
+
+        // Skip "Mr.", "No. 5", single initials like "J." and list numbers like "1." at the start of a chunk
+        const isAbbreviation = ABBREVIATIONS.includes(lastWord)
+            || (NUMBER_ABBREVIATIONS.includes(lastWord) && /^\d/.test(flat.slice(end)));
+        const isListNumber = /^\d+$/.test(lastWord) && !candidate.includes(' ');
+        if (isAbbreviation || isListNumber || /^[A-Z]$/.test(lastWord)) continue;
+
+        chunks.push({ text: candidate });
+        start = end;
+    }
+
+    const rest = flat.slice(start).trim();
+    if (rest) chunks.push({ text: rest });
+    return chunks;
+};
+
+const splitQuestions = (text: string): ScriptChunk[] => {
+    const chunks: string[] = [];
+    let current: string[] = [];
+
+    for (const line of text.split(/\r?\n/)) {
+        if (QUESTION_START.test(line) && current.some(l => l.trim())) {
+            chunks.push(current.join('\n'));
+            current = [];
+        }
+        current.push(line);
+    }
+    chunks.push(current.join('\n'));
+
+    return chunks.map(normalize).filter(Boolean).map(t => ({ text: t }));
+};
+
+const splitSpeakers = (text: string): ScriptChunk[] => {
+    return parseDialogue(text).map(line => ({ text: line.text, speaker: line.speaker }));
+};
+
+/**
+ * Splits a long lesson text into chunks, one per future segment.
+ */
+export const splitScript = (text: string, mode: SplitMode): ScriptChunk[] => {
+    switch (mode) {
+        case 'paragraph': return splitParagraphs(text);
+        case 'sentence': return splitSentences(text);
+        case 'question': return splitQuestions(text);
+        case 'speaker': return splitSpeakers(text);
+    }
+};
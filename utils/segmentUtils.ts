@@ -0,0 +1,26 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Segment, InputType } from '../types';
+import { DEFAULT_VOICE } from '../constants';
+
+/**
+ * Creates a blank text segment with default voice and delay.
+ */
+export const createSegment = (overrides: Partial<Segment> = {}): Segment => ({
+    id: uuidv4(),
+    inputType: InputType.TEXT,
+    textRaw: '',
+    isExtracting: false,
+    isGeneratingAudio: false,
+    audioBase64: null,
+    voice: DEFAULT_VOICE,
+    speed: 1.0,
+    delay: 1.0,
+    ...overrides
+});
+
+/**
+ * Playback rate applied to a segment's generated clip. Dialogues are built at each
+ * speaker's persona speed, so the segment's own speed (left over from a text persona) is ignored.
+ */
+export const getSegmentSpeed = (segment: Segment): number =>
+    segment.inputType === InputType.DIALOGUE ? 1.0 : segment.speed;
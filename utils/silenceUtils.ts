@@ -0,0 +1,117 @@
+import { SilenceSettings } from '../types';
+
+const FRAME_SECONDS = 0.01; // 10ms level frames
+const SPLICE_SECONDS = 0.01; // Crossfade where a pause is shortened
+
+export interface SilentRange {
+  start: number; // Seconds
+  end: number;
+}
+
+/**
+ * RMS level per frame in dBFS, taking the loudest channel.
+ */
+const frameLevels = (buffer: AudioBuffer): Float32Array => {
+    const frameSize = Math.max(1, Math.round(FRAME_SECONDS * buffer.sampleRate));
+    const frames = Math.ceil(buffer.length / frameSize);
+    const levels = new Float32Array(frames).fill(-Infinity);
+
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const data = buffer.getChannelData(c);
+        for (let f = 0; f < frames; f++) {
+            const start = f * frameSize;
+            const end = Math.min(buffer.length, start + frameSize);
+            let sum = 0;
+            for (let i = start; i < end; i++) sum += data[i] * data[i];
+            levels[f] = Math.max(levels[f], 10 * Math.log10(sum / (end - start)));
+        }
+    }
+    return levels;
+};
+
+/**
+ * Stretches quieter than the threshold for at least the minimum duration.
+ * Leading and trailing silence is reported at any length.
+ */
+export const detectSilence = (
+    buffer: AudioBuffer,
+    { threshold, minDuration }: Pick<SilenceSettings, 'threshold' | 'minDuration'>
+): SilentRange[] => {
+    const levels = frameLevels(buffer);
+    const frameSeconds = Math.max(1, Math.round(FRAME_SECONDS * buffer.sampleRate)) / buffer.sampleRate;
+    const ranges: SilentRange[] = [];
+
+    let runStart = -1;
+    for (let f = 0; f <= levels.length; f++) {
+        const silent = f < levels.length && levels[f] < threshold;
+        if (silent && runStart < 0) runStart = f;
+        if (!silent && runStart >= 0) {
+            const start = runStart * frameSeconds;
+            const end = Math.min(buffer.duration, f * frameSeconds);
+            const atEdge = runStart === 0 || f === levels.length;
+            if (atEdge || end - start >= minDuration) ranges.push({ start, end });
+            runStart = -1;
+        }
+    }
+    return ranges;
+};
+
+/**
+ * Trim points that drop leading and trailing silence, keeping some padding around the sound.
+ * Returns null when the whole buffer is silent.
+ */
+export const findTrimPoints = (buffer: AudioBuffer, settings: SilenceSettings): SilentRange | null => {
+    const ranges = detectSilence(buffer, settings);
+    const leading = ranges.find(r => r.start === 0);
+    const trailing = ranges.find(r => r.end >= buffer.duration);
+    if (leading && leading === trailing) return null;
+
+    return {
+        start: leading ? Math.max(0, leading.end - settings.padding) : 0,
+        end: trailing ? Math.min(buffer.duration, trailing.start + settings.padding) : buffer.duration
+    };
+};
+
+/**
+ * Shortens pauses inside the buffer that are longer than maxPause, keeping half of
+ * the allowed pause on each side and crossfading the splice. Edge silence is left alone.
+ */
+export const compressPauses = (buffer: AudioBuffer, settings: SilenceSettings): AudioBuffer => {
+    const rate = buffer.sampleRate;
+    const keep = Math.round(settings.maxPause / 2 * rate);
+    const cuts = detectSilence(buffer, { threshold: settings.threshold, minDuration: Math.max(settings.minDuration, settings.maxPause) })
+        .filter(r => r.start > 0 && r.end < buffer.duration)
+        .map(r => ({ from: Math.round(r.start * rate) + keep, to: Math.round(r.end * rate) - keep }))
+        .filter(cut => cut.to > cut.from);
+    if (cuts.length === 0) return buffer;
+
+    // Pieces of audio that are kept, in samples
+    const pieces: { start: number; end: number }[] = [];
+    let position = 0;
+    for (const cut of cuts) {
+        pieces.push({ start: position, end: cut.from });
+        position = cut.to;
+    }
+    pieces.push({ start: position, end: buffer.length });
+
+    const splice = Math.min(keep, Math.round(SPLICE_SECONDS * rate));
+    const length = pieces.reduce((sum, p) => sum + p.end - p.start, 0) - splice * (pieces.length - 1);
+    const result = new AudioBuffer({ length, numberOfChannels: buffer.numberOfChannels, sampleRate: rate });
+
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const input = buffer.getChannelData(c);
+        const output = result.getChannelData(c);
+        let offset = 0;
+        pieces.forEach((piece, index) => {
+            const pieceLength = piece.end - piece.start;
+            for (let i = 0; i < pieceLength; i++) {
+                let gain = 1;
+                if (index > 0 && i < splice) gain = (i + 0.5) / splice;
+                if (index < pieces.length - 1 && i >= pieceLength - splice) gain = (pieceLength - i - 0.5) / splice;
+                output[offset + i] += input[piece.start + i] * gain;
+            }
+            offset += pieceLength - splice;
+        });
+    }
+    return result;
+};
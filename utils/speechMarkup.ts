@@ -0,0 +1,91 @@
+import { LexiconEntry } from '../types';
+
+export type SpeechPart =
+  | { type: 'text'; text: string }
+  | { type: 'pause'; seconds: number };
+
+// [pause], [pause 2s], [pause 1.5 s], [pause 500ms]
+const PAUSE_PATTERN = /\[pause(?:\s+(\d+(?:\.\d+)?)\s*(ms|s)?)?\]/gi;
+// [spell USA] → "U. S. A."
+const SPELL_PATTERN = /\[spell\s+([^\]]+)\]/gi;
+// *word* or *a few words* on one line
+const EMPHASIS_PATTERN = /\*([^*\n]+)\*/g;
+
+const DEFAULT_PAUSE_SECONDS = 1;
+const MAX_PAUSE_SECONDS = 30;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Splits text at [pause] markers. Consecutive pauses are summed and empty text is dropped.
+ */
+export const parseSpeechMarkup = (text: string): SpeechPart[] => {
+    const parts: SpeechPart[] = [];
+    const pushPause = (seconds: number) => {
+        const last = parts[parts.length - 1];
+        if (last?.type === 'pause') last.seconds = Math.min(MAX_PAUSE_SECONDS, last.seconds + seconds);
+        else parts.push({ type: 'pause', seconds: Math.min(MAX_PAUSE_SECONDS, seconds) });
+    };
+
+    let lastIndex = 0;
+    for (const match of text.matchAll(PAUSE_PATTERN)) {
+        const before = text.slice(lastIndex, match.index).trim();
+        if (before) parts.push({ type: 'text', text: before });
+
+        const value = match[1] ? parseFloat(match[1]) : DEFAULT_PAUSE_SECONDS;
+        pushPause(match[2]?.toLowerCase() === 'ms' ? value / 1000 : value);
+        lastIndex = match.index! + match[0].length;
+    }
+    const rest = text.slice(lastIndex).trim();
+    if (rest) parts.push({ type: 'text', text: rest });
+
+    return parts;
+};
+
+/**
+ * Replaces lexicon terms (whole words only) with their spoken form.
+ */
+export const applyLexicon = (text: string, lexicon: LexiconEntry[]): string => {
+    // Longer terms first so "St. Mary's" wins over "St."
+    const entries = lexicon
+        .filter(e => e.term.trim() && e.spoken.trim())
+        .sort((a, b) => b.term.length - a.term.length);
+
+    let result = text;
+    for (const entry of entries) {
+        const term = entry.term.trim();
+        // Word boundaries only where the term itself starts/ends with a letter or digit ("St." may touch the next word)
+        const before = /^[\p{L}\p{N}]/u.test(term) ? '(?<![\\p{L}\\p{N}])' : '';
+        const after = /[\p{L}\p{N}]$/u.test(term) ? '(?![\\p{L}\\p{N}])' : '';
+        const pattern = new RegExp(`${before}${escapeRegExp(term)}${after}`, entry.caseSensitive ? 'gu' : 'giu');
+        result = result.replace(pattern, entry.spoken.trim());
+    }
+    return result;
+};
+
+/**
+ * Turns one text part into what the TTS engine should read: spelled-out letters,
+ * lexicon replacements, and emphasis kept as *word* only for engines that understand it.
+ */
+export const renderSpeechText = (text: string, lexicon: LexiconEntry[], keepEmphasis: boolean): string => {
+    const spelled = text.replace(SPELL_PATTERN, (match: string, word: string, offset: number) => {
+        const letters = Array.from(word.replace(/\s+/g, '')).join('. ');
+        // Avoid "A.." when the sentence's own punctuation follows
+        return /^[.!?,;:]/.test(text.slice(offset + match.length)) ? letters : `${letters}.`;
+    });
+    const replaced = applyLexicon(spelled, lexicon);
+    return keepEmphasis ? replaced : replaced.replace(EMPHASIS_PATTERN, '$1');
+};
+
+/**
+ * Removes markup for display (captions, read-along, printed scripts).
+ */
+export const stripSpeechMarkup = (text: string): string => {
+    return text
+        .replace(PAUSE_PATTERN, ' ')
+        .replace(SPELL_PATTERN, '$1')
+        .replace(EMPHASIS_PATTERN, '$1')
+        .replace(/[ \t]{2,}/g, ' ')
+        .replace(/[ \t]+\n/g, '\n')
+        .trim();
+};
@@ -0,0 +1,83 @@
+import { TimelineEntry } from '../types';
+
+// Common caption line length for readability
+const MAX_LINE_LENGTH = 42;
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+/**
+ * Formats seconds as HH:MM:SS{separator}mmm (SRT uses ",", WebVTT uses ".").
+ */
+export const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+/**
+ * Wraps caption text into lines, keeping existing line breaks (e.g. dialogue turns).
+ */
+const wrapCaption = (text: string): string => {
+    return text
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(Boolean)
+        .flatMap(line => {
+            const lines: string[] = [];
+            let current = '';
+            for (const word of line.split(/\s+/)) {
+                if (current && (current.length + 1 + word.length) > MAX_LINE_LENGTH) {
+                    lines.push(current);
+                    current = word;
+                } else {
+                    current = current ? `${current} ${word}` : word;
+                }
+            }
+            if (current) lines.push(current);
+            return lines;
+        })
+        .join('\n');
+};
+
+// Segments without text (e.g. music uploads) produce no caption
+const captionEntries = (timeline: TimelineEntry[]) => timeline.filter(entry => entry.text.trim());
+
+export const formatSrt = (timeline: TimelineEntry[]): string => {
+    return captionEntries(timeline)
+        .map((entry, i) => [
+            String(i + 1),
+            `${formatTimestamp(entry.start, ',')} --> ${formatTimestamp(entry.end, ',')}`,
+            wrapCaption(entry.text)
+        ].join('\n'))
+        .join('\n\n') + '\n';
+};
+
+export const formatVtt = (timeline: TimelineEntry[]): string => {
+    // Numbered like SRT: repeated segments (test mode) would give duplicate ids
+    const cues = captionEntries(timeline).map((entry, i) => [
+        String(i + 1),
+        `${formatTimestamp(entry.start, '.')} --> ${formatTimestamp(entry.end, '.')}`,
+        // "-->" is not allowed inside WebVTT cue text
+        wrapCaption(entry.text).replace(/-->/g, '->')
+    ].join('\n'));
+
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+/**
+ * JSON cue sheet for read-along players: every segment, including ones without text.
+ */
+export const formatCueSheet = (timeline: TimelineEntry[]): string => {
+    const cues = timeline.map((entry, i) => ({
+        index: i + 1,
+        segmentId: entry.segmentId,
+        text: entry.text,
+        start: Number(entry.start.toFixed(3)),
+        end: Number(entry.end.toFixed(3)),
+        delay: entry.delay
+    }));
+    return JSON.stringify({ version: 1, cues }, null, 2);
+};
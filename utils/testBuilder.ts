@@ -0,0 +1,125 @@
+import { Segment, InputType, TestSectionSettings } from '../types';
+import { stripSpeechMarkup } from './speechMarkup';
+
+// Short pause after each announcer line
+export const ANNOUNCER_GAP = 1.0;
+
+export interface TestPlanItem {
+  kind: 'announcer' | 'segment';
+  text: string;
+  segmentId?: string;
+  delay: number; // Seconds of silence after this item
+}
+
+/**
+ * Expands segments into the play order of a listening test section:
+ * instructions, "Question N", each repeat with a "listen again" prompt, then the answer gap.
+ */
+export const buildTestPlan = (segments: Segment[], settings: TestSectionSettings): TestPlanItem[] => {
+    const plan: TestPlanItem[] = [];
+    let questionNumber = 0;
+
+    if (settings.instructions.trim()) {
+        plan.push({ kind: 'announcer', text: settings.instructions.trim(), delay: ANNOUNCER_GAP });
+    }
+
+    for (const seg of segments) {
+        if (seg.isQuestion) {
+            questionNumber++;
+            plan.push({ kind: 'announcer', text: `Question ${questionNumber}.`, delay: ANNOUNCER_GAP });
+        }
+
+        const plays = Math.max(1, seg.repeatCount ?? 1);
+        for (let pass = 1; pass <= plays; pass++) {
+            if (pass > 1 && settings.repeatPrompt.trim()) {
+                plan.push({ kind: 'announcer', text: settings.repeatPrompt.trim(), delay: ANNOUNCER_GAP });
+            }
+            const isLastPass = pass === plays;
+            const answerGap = seg.isQuestion && isLastPass ? (seg.answerGap ?? settings.answerGap) : 0;
+            // Overlaps (negative delays) would run into the announcer, so tests keep a gap
+            plan.push({ kind: 'segment', text: stripSpeechMarkup(seg.textRaw), segmentId: seg.id, delay: Math.max(0, seg.delay) + answerGap });
+        }
+    }
+
+    if (settings.closingText.trim()) {
+        plan.push({ kind: 'announcer', text: settings.closingText.trim(), delay: 0 });
+    }
+
+    return plan;
+};
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatScriptText = (seg: Segment) => {
+    if (seg.inputType === InputType.AUDIO) {
+        return `<em>[Audio: ${escapeHtml(seg.fileName || 'uploaded recording')}]</em>`;
+    }
+    return escapeHtml(stripSpeechMarkup(seg.textRaw)).replace(/\n/g, '<br/>');
+};
+
+/**
+ * Builds a printable HTML document with the full tapescript followed by the answer key.
+ */
+export const buildTestScriptHtml = (segments: Segment[], settings: TestSectionSettings): string => {
+    const title = escapeHtml(settings.title || 'Listening Test');
+    const scriptRows: string[] = [];
+    const answerRows: string[] = [];
+    let questionNumber = 0;
+
+    if (settings.instructions.trim()) {
+        scriptRows.push(`<p class="announcer">${escapeHtml(settings.instructions.trim())}</p>`);
+    }
+
+    for (const seg of segments) {
+        const plays = Math.max(1, seg.repeatCount ?? 1);
+        const playNote = plays > 1 ? ` <span class="note">(played ${plays} times)</span>` : '';
+
+        if (seg.isQuestion) {
+            questionNumber++;
+            const gap = seg.answerGap ?? settings.answerGap;
+            scriptRows.push(`<h3>Question ${questionNumber}${playNote}</h3>`);
+            scriptRows.push(`<p>${formatScriptText(seg)}</p>`);
+            scriptRows.push(`<p class="note">[${gap}s pause for answering]</p>`);
+            answerRows.push(`<tr><td>${questionNumber}</td><td>${escapeHtml(seg.answer || '—')}</td></tr>`);
+        } else {
+            scriptRows.push(`<p>${formatScriptText(seg)}${playNote}</p>`);
+        }
+    }
+
+    if (settings.closingText.trim()) {
+        scriptRows.push(`<p class="announcer">${escapeHtml(settings.closingText.trim())}</p>`);
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${title}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 720px; margin: 2rem auto; color: #0f172a; line-height: 1.6; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.2rem; border-bottom: 1px solid #cbd5e1; padding-bottom: 0.25rem; margin-top: 2rem; }
+  h3 { font-size: 1rem; margin: 1.25rem 0 0.25rem; }
+  .announcer { font-style: italic; color: #334155; }
+  .note { color: #64748b; font-size: 0.85rem; }
+  table { border-collapse: collapse; width: 100%; }
+  td { border: 1px solid #cbd5e1; padding: 0.4rem 0.6rem; }
+  td:first-child { width: 3rem; text-align: center; font-weight: bold; }
+  .page-break { page-break-before: always; }
+</style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <h2>Tapescript</h2>
+  ${scriptRows.join('\n  ')}
+  <div class="page-break"></div>
+  <h1>${title}</h1>
+  <h2>Answer Key</h2>
+  ${answerRows.length > 0 ? `<table>${answerRows.join('')}</table>` : '<p class="note">No questions marked.</p>'}
+</body>
+</html>`;
+};
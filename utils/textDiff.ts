@@ -0,0 +1,57 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Longer texts fall back to a line diff to keep the LCS table small
+const MAX_WORD_TOKENS = 4000;
+
+const tokenize = (text: string, byLine: boolean): string[] => {
+    return byLine ? text.split(/(?<=\n)/) : (text.match(/\s+|[^\s]+/g) || []);
+};
+
+/**
+ * Word-level diff of two texts (longest common subsequence), whitespace kept as tokens
+ * so the parts join back into the original texts.
+ */
+export const diffText = (before: string, after: string): DiffPart[] => {
+    const byLine = Math.max(before.length, after.length) / 5 > MAX_WORD_TOKENS;
+    const a = tokenize(before, byLine);
+    const b = tokenize(after, byLine);
+
+    // lcs[i][j] = LCS length of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i * width + j] = a[i] === b[j]
+                ? lcs[(i + 1) * width + j + 1] + 1
+                : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (type: DiffPart['type'], text: string) => {
+        const last = parts[parts.length - 1];
+        if (last && last.type === type) last.text += text;
+        else parts.push({ type, text });
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push('equal', a[i]);
+            i++;
+            j++;
+        } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+
+    return parts;
+};
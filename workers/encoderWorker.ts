@@ -0,0 +1,131 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { muxOggOpus, OPUS_GRANULE_RATE } from '../utils/oggUtils';
+
+// Off-main-thread MP3 / Ogg Opus encoding for exports.
+
+export interface EncodeRequest {
+  id: number;
+  format: 'mp3' | 'opus';
+  channels: Float32Array[];
+  sampleRate: number;
+  bitrate: number; // kbps
+}
+
+export type EncodeResponse =
+  | { id: number; data: Uint8Array; mimeType: string }
+  | { id: number; error: string };
+
+const MP3_BLOCK_SIZE = 1152;
+
+const floatToInt16 = (input: Float32Array, start: number, end: number): Int16Array => {
+    const output = new Int16Array(end - start);
+    for (let i = start; i < end; i++) {
+        const s = Math.max(-1, Math.min(1, input[i]));
+        output[i - start] = s < 0 ? s * 32768 : s * 32767;
+    }
+    return output;
+};
+
+const encodeMp3 = (channels: Float32Array[], sampleRate: number, bitrate: number): Uint8Array => {
+    // MP3 carries at most two channels
+    const numChannels = Math.min(2, channels.length);
+    const encoder = new Mp3Encoder(numChannels, sampleRate, bitrate);
+    const length = channels[0]?.length ?? 0;
+    const chunks: Uint8Array[] = [];
+
+    for (let i = 0; i < length; i += MP3_BLOCK_SIZE) {
+        const end = Math.min(length, i + MP3_BLOCK_SIZE);
+        const left = floatToInt16(channels[0], i, end);
+        const encoded = numChannels === 2
+            ? encoder.encodeBuffer(left, floatToInt16(channels[1], i, end))
+            : encoder.encodeBuffer(left);
+        if (encoded.length > 0) chunks.push(encoded);
+    }
+    const tail = encoder.flush();
+    if (tail.length > 0) chunks.push(tail);
+
+    const total = chunks.reduce((sum, c) => sum + c.length, 0);
+    const output = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+        output.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return output;
+};
+
+const encodeOpus = async (channels: Float32Array[], sampleRate: number, bitrate: number): Promise<Uint8Array> => {
+    if (typeof AudioEncoder === 'undefined') {
+        throw new Error("Opus export is not supported in this browser.");
+    }
+
+    const numChannels = Math.min(2, channels.length);
+    const config: AudioEncoderConfig = {
+        codec: 'opus',
+        sampleRate,
+        numberOfChannels: numChannels,
+        bitrate: bitrate * 1000
+    };
+    const support = await AudioEncoder.isConfigSupported(config);
+    if (!support.supported) {
+        throw new Error(`Opus encoding at ${sampleRate} Hz is not supported in this browser.`);
+    }
+
+    const packets: Uint8Array[] = [];
+    const packetSamples: number[] = [];
+    let encodeError: Error | null = null;
+
+    const encoder = new AudioEncoder({
+        output: (chunk) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            packets.push(data);
+            // Chunk duration is in microseconds
+            packetSamples.push(Math.round(((chunk.duration ?? 20000) * OPUS_GRANULE_RATE) / 1e6));
+        },
+        error: (e) => { encodeError = e; }
+    });
+    encoder.configure(config);
+
+    const length = channels[0]?.length ?? 0;
+    const blockSize = sampleRate; // Feed one second at a time
+    for (let start = 0; start < length; start += blockSize) {
+        const frames = Math.min(blockSize, length - start);
+        const planar = new Float32Array(frames * numChannels);
+        for (let c = 0; c < numChannels; c++) {
+            planar.set(channels[c].subarray(start, start + frames), c * frames);
+        }
+        const audioData = new AudioData({
+            format: 'f32-planar',
+            sampleRate,
+            numberOfFrames: frames,
+            numberOfChannels: numChannels,
+            timestamp: Math.round((start / sampleRate) * 1e6),
+            data: planar
+        });
+        encoder.encode(audioData);
+        audioData.close();
+    }
+
+    await encoder.flush();
+    encoder.close();
+    if (encodeError) throw encodeError;
+
+    const totalSamples = Math.round((length * OPUS_GRANULE_RATE) / sampleRate);
+    return muxOggOpus(packets, packetSamples, numChannels, sampleRate, totalSamples);
+};
+
+self.onmessage = async (e: MessageEvent<EncodeRequest>) => {
+    const { id, format, channels, sampleRate, bitrate } = e.data;
+    try {
+        const data = format === 'mp3'
+            ? encodeMp3(channels, sampleRate, bitrate)
+            : await encodeOpus(channels, sampleRate, bitrate);
+        const mimeType = format === 'mp3' ? 'audio/mpeg' : 'audio/ogg; codecs=opus';
+        const response: EncodeResponse = { id, data, mimeType };
+        (self as unknown as Worker).postMessage(response, [data.buffer]);
+    } catch (err: any) {
+        const response: EncodeResponse = { id, error: err?.message || 'Encoding failed' };
+        (self as unknown as Worker).postMessage(response);
+    }
+};
@@ -0,0 +1,2 @@
+// Hosts pdf.js page parsing off the main thread; the bundled worker registers itself on import.
+import 'pdfjs-dist/build/pdf.worker.min.mjs';